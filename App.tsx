@@ -1,26 +1,89 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { DEFAULT_CAPL_CODE, DEFAULT_MAPPINGS, INITIAL_MODE, NODE_CLI_TEMPLATE } from './constants';
-import { TestMode, SignalMapping } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DEFAULT_CAPL_CODE, DEFAULT_MAPPINGS, INITIAL_MODE } from './constants';
+import CLI_BUNDLE from 'virtual:capl-cli';
+import { AiSettings, TestMode, SignalMapping, ReplacementEntry, SysvarDeclarations, SysvarAccessStyle, TransformationIssue, ProjectFile, MappingFileHeader, Workspace, WorkspaceInfo, WorkspaceState, EditorSnapshot, Conversion, EnvironmentProfile, ProfileKind, OutputStyle } from './types';
 import MappingEditor from './components/MappingEditor';
 import Terminal from './components/Terminal';
 import ReadmeModal from './components/ReadmeModal';
+import ReplacementReport from './components/ReplacementReport';
+import DiffView from './components/DiffView';
+import ProjectTree from './components/ProjectTree';
+import WorkspaceMenu from './components/WorkspaceMenu';
+import HistoryPanel from './components/HistoryPanel';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import GatewayMenu from './components/GatewayMenu';
+import AiSettingsModal from './components/AiSettingsModal';
+import AiReviewModal from './components/AiReviewModal';
 import { performLocalTransformation } from './utils/transformer';
-import { transformCodeWithAI } from './services/geminiService';
+import { createReplacementReport, formatIssue, formatReplacement } from './utils/report';
+import { downloadBlob, downloadTextFile } from './utils/download';
+import { getNextMappingId, mergeMappings } from './utils/mappings';
+import { createMappingsFromDbc, DbcSignalStyle, parseDbc } from './utils/dbcParser';
+import { findUndeclaredSysvars, parseSysvarPath, parseVsysvarXml } from './utils/vsysvar';
+import { analyzeConversion, formatFindingsSummary } from './utils/mappingAnalyzer';
+import { addHeaderReference, createMappingHeader, formatValidationErrors, parseMappingFile } from './utils/mappingFile';
+import { formatRoundTripResult, verifyRoundTrip } from './utils/roundTrip';
+import { CAPL_FILE_EXTENSIONS, formatProjectTree, normalizePath, transformProject } from './utils/project';
+import { createZip } from './utils/zip';
+import { findLeftoverSignals, formatLeftover, leftoverKind } from './utils/leftoverCheck';
+import { defaultDualSwitch } from './utils/dualOutput';
+import { createGatewayNode, GatewayDirection, GatewayOptions, GATEWAY_DIRECTION_LABELS } from './utils/gatewayNode';
+import { createMappingForUnmapped, findUnmappedSignals, formatUnmappedSignals } from './utils/signalScanner';
+import {
+  createWorkspace, createWorkspaceFile, deleteWorkspace, findWorkspace, getActiveWorkspaceId, getWorkspace,
+  listWorkspaces, parseWorkspaceFile, putWorkspace, setActiveWorkspaceId, toWorkspaceInfo, uniqueWorkspaceName
+} from './utils/workspaces';
+import { amendHistory, createHistory, History, historyEntries, jumpHistory, pushHistory } from './utils/history';
+import {
+  conversionForMode, createProfileId, findProfile, formatConversion, getColumn, getProfiles, isBuiltinProfile,
+  PROFILE_KIND_LABELS, ProjectedConversion, projectConversion, removeProfileColumn
+} from './utils/profiles';
+import { transformCodeWithAI } from './services/aiService';
+import { AiGuardResult, checkAiRefactor, formatAiGuardResult } from './utils/aiGuard';
+import { AiProvider, aiSettingsProblem, createAiProvider, loadAiSettings, saveAiSettings } from './services/aiProviders';
 import Button from './components/Button';
 import { 
-  ArrowRight, ArrowLeft, ArrowRightLeft, Cpu, Laptop, Sparkles, 
+  ArrowRight, ArrowRightLeft, Sparkles, 
   Copy, Check, Settings2, Upload, Download, RefreshCw, Trash2, FileText,
-  Terminal as TerminalIcon, BookOpen, FileCode
+  Terminal as TerminalIcon, BookOpen, FileCode, ShieldCheck, Columns2, ChevronUp, ChevronDown, FolderOpen, GitFork, Bot
 } from 'lucide-react';
 
+// Delay between the last edit and saving the open workspace
+const AUTOSAVE_DELAY_MS = 800;
+
 const App: React.FC = () => {
   const [inputCode, setInputCode] = useState(DEFAULT_CAPL_CODE);
   const [outputCode, setOutputCode] = useState("");
-  const [mode, setMode] = useState<TestMode>(INITIAL_MODE);
+  const [conversion, setConversion] = useState<Conversion>(() => conversionForMode(INITIAL_MODE));
+  const [profiles, setProfiles] = useState<EnvironmentProfile[]>([]);
   const [mappings, setMappings] = useState<SignalMapping[]>(DEFAULT_MAPPINGS);
+  const [mappingHeader, setMappingHeader] = useState<MappingFileHeader>(() => createMappingHeader());
+  const [sysvars, setSysvars] = useState<SysvarDeclarations | null>(null);
+  const [accessStyle, setAccessStyle] = useState<SysvarAccessStyle>('at');
+  const [outputStyle, setOutputStyle] = useState<OutputStyle>('convert');
+  const [dualSwitch, setDualSwitch] = useState('');
+  const [rejectedSignals, setRejectedSignals] = useState<string[]>([]);
   const [isAiProcessing, setIsAiProcessing] = useState(false);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(() => loadAiSettings());
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  // AI result waiting for review before it replaces the output
+  const [aiReview, setAiReview] = useState<{ original: string; aiCode: string; guard: AiGuardResult; provider: string } | null>(null);
   const [copied, setCopied] = useState(false);
   const [changeCount, setChangeCount] = useState<number | null>(null);
+  const [replacements, setReplacements] = useState<ReplacementEntry[]>([]);
+  const [issues, setIssues] = useState<TransformationIssue[]>([]);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [outputView, setOutputView] = useState<'text' | 'diff'>('text');
+  const [activeChange, setActiveChange] = useState<number | null>(null);
+  const [highlightedMappingId, setHighlightedMappingId] = useState<string | null>(null);
+  const [project, setProject] = useState<ProjectFile[] | null>(null);
+  const [activeFile, setActiveFile] = useState<string | null>(null);
+  const [workspaces, setWorkspaces] = useState<WorkspaceInfo[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [history, setHistory] = useState<History<EditorSnapshot>>(() => createHistory({
+    inputCode: DEFAULT_CAPL_CODE, outputCode: "", project: null, activeFile: null, mappings: DEFAULT_MAPPINGS,
+    profiles: [], conversion: conversionForMode(INITIAL_MODE),
+  }, 'Started'));
   
   // Terminal and Readme State
   const [isTerminalOpen, setIsTerminalOpen] = useState(false);
@@ -29,56 +92,226 @@ const App: React.FC = () => {
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const mappingInputRef = useRef<HTMLInputElement>(null);
+  const dbcInputRef = useRef<HTMLInputElement>(null);
+  const dbcStyleRef = useRef<DbcSignalStyle>('message');
+  const vsysvarInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const workspaceInputRef = useRef<HTMLInputElement>(null);
+  const sourceEditorRef = useRef<HTMLTextAreaElement>(null); // the only text field whose edits are history steps
+  const skipAutosaveRef = useRef(false);
+  const historyShortcutRef = useRef<(redo: boolean) => void>(() => {});
+  const autosaveFailedRef = useRef(false);
 
   const addLog = (message: string) => {
     setTerminalLogs(prev => [...prev, message]);
   };
 
+  // The selected conversion as an engine direction plus two-column rules
+  const allProfiles: EnvironmentProfile[] = useMemo(() => getProfiles(profiles), [profiles]);
+  const engine: ProjectedConversion = useMemo(
+    () => projectConversion(mappings, allProfiles, conversion),
+    [mappings, allProfiles, conversion]
+  );
+  const mode = engine.mode;
+  const engineMappings = engine.mappings;
+  const aiProvider: AiProvider | null = useMemo(() => createAiProvider(aiSettings), [aiSettings]);
+  const isDual = outputStyle === 'dual';
+  const effectiveSwitch = dualSwitch.trim() || defaultDualSwitch(conversion.to);
+  const transformOptions = { accessStyle, ...engine.options, ...(isDual ? { dualSwitch: effectiveSwitch } : {}) };
+  const outputName = isDual ? `dual_${conversion.from}_${conversion.to}` : conversion.to;
+  const fromProfile = findProfile(allProfiles, conversion.from);
+  const toProfile = findProfile(allProfiles, conversion.to);
+  const sameKind = fromProfile?.kind === toProfile?.kind;
+  const conversionLabel = formatConversion(allProfiles, conversion);
+
   // Auto-run local transformation when inputs change
   useEffect(() => {
     if (!isAiProcessing) {
       handleLocalTransform(false); // false = silent mode (no log)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [inputCode, mode, mappings]);
+  }, [inputCode, engine, accessStyle, outputStyle, effectiveSwitch]);
+
+  // Every project file goes through the same mapping table
+  const projectResult = useMemo(
+    () => (project ? transformProject(project, mode, engineMappings, transformOptions) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [project, engine, accessStyle, outputStyle, effectiveSwitch]
+  );
+
+  // React has no typed prop for directory pickers
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // Restore the last open workspace; on first start the defaults become one
+  useEffect(() => {
+    runWorkspaceAction(async () => {
+      const stored = await listWorkspaces();
+      const last = findWorkspace(stored, getActiveWorkspaceId() ?? '') ?? stored[0];
+      if (last) {
+        setWorkspaces(stored.map(toWorkspaceInfo));
+        applyWorkspace(last);
+      } else {
+        const workspace = createWorkspace('Default', captureWorkspaceState());
+        await storeWorkspace(workspace);
+        setWorkspaceId(workspace.id);
+        setActiveWorkspaceId(workspace.id);
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Autosave the open workspace shortly after each change
+  useEffect(() => {
+    if (!workspaceId) return;
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false; // state was just loaded from storage
+      return;
+    }
+    const timer = setTimeout(() => {
+      saveCurrentWorkspace().then(() => { autosaveFailedRef.current = false; }).catch((err) => {
+        // Log once, otherwise the log entry itself triggers the next failing save
+        if (!autosaveFailedRef.current) addLog(`Error: Autosave failed: ${(err as Error).message}`);
+        autosaveFailedRef.current = true;
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspaceId, inputCode, project, activeFile, mappings, mappingHeader, profiles, conversion, accessStyle, outputStyle, dualSwitch, sysvars, rejectedSignals, terminalLogs]);
 
-  // Global keyboard shortcut for terminal
+  // Global keyboard shortcuts: terminal, undo (Ctrl+Z) and redo (Ctrl+Y / Ctrl+Shift+Z)
   useEffect(() => {
     const handleGlobalKey = (e: KeyboardEvent) => {
       if (e.key === '`' || e.key === '~') {
         setIsTerminalOpen(prev => !prev);
         e.preventDefault();
+      } else if ((e.ctrlKey || e.metaKey) && !e.altKey && ['z', 'y'].includes(e.key.toLowerCase())) {
+        // Other text fields keep their native undo
+        const target = e.target as HTMLElement | null;
+        const isTextField = !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+        if (isTextField && target !== sourceEditorRef.current) return;
+        historyShortcutRef.current(e.key.toLowerCase() === 'y' || e.shiftKey);
+        e.preventDefault();
       }
     };
     window.addEventListener('keydown', handleGlobalKey);
     return () => window.removeEventListener('keydown', handleGlobalKey);
   }, []);
 
-  const handleLocalTransform = (logToTerminal = true) => {
-    const result = performLocalTransformation(inputCode, mode, mappings);
+  const handleLocalTransform = (logToTerminal = true, strict = false) => {
+    if (logToTerminal && engine.error) {
+      addLog(`Error: ${engine.error}. Pick two different profiles with 'mode <from> <to>'.`);
+      return;
+    }
+    const result = performLocalTransformation(inputCode, mode, engineMappings, transformOptions);
+
+    if (logToTerminal && sysvars && toProfile?.kind === 'sysvar') {
+      const undeclared = findUndeclaredSysvars(result.code, sysvars);
+      if (undeclared.length > 0) {
+        const details = undeclared.map(u => `  L${u.line}:${u.column}  ${u.name}`).join('\n');
+        if (strict) {
+          addLog(`Error: Output references ${undeclared.length} sysvar(s) not declared in '${sysvars.source}'. Output not updated.\n${details}`);
+          return;
+        }
+        addLog(`Info: Warning - ${undeclared.length} sysvar(s) not declared in '${sysvars.source}':\n${details}`);
+      }
+    }
+
     setOutputCode(result.code);
     setChangeCount(result.changes);
+    setReplacements(result.replacements);
+    setIssues(result.issues);
+    setActiveChange(null);
     if (logToTerminal) {
       addLog(`Success: Transformation complete. ${result.changes} replacements made.`);
+      if (result.replacements.length > 0) {
+        addLog(result.replacements.map(formatReplacement).join('\n'));
+      }
+      if (result.issues.length > 0) {
+        addLog(`Info: ${result.issues.length} issue(s):\n${result.issues.map(formatIssue).join('\n')}`);
+      }
+    }
+  };
+
+  const handleExportReport = () => {
+    const result = performLocalTransformation(inputCode, mode, engineMappings, transformOptions);
+    const report = createReplacementReport(result, mode);
+    const filename = `replacement_report_${outputName}.json`;
+    downloadTextFile(JSON.stringify(report, null, 2), filename, 'application/json');
+    addLog(`Success: Exported report '${filename}' (${report.totalChanges} replacements).`);
+  };
+
+  const changeAiSettings = (next: AiSettings) => {
+    setAiSettings(next);
+    saveAiSettings(next);
+    setIsAiSettingsOpen(false);
+    const provider = createAiProvider(next);
+    addLog(provider ? `Success: AI provider set to ${provider.label}.` : "Info: AI features are disabled (no provider configured).");
+  };
+
+  const rejectSignal = (realSignal: string) => {
+    setRejectedSignals(prev => (prev.includes(realSignal) ? prev : [...prev, realSignal]));
+    addLog(`Info: Rejected AI suggestion for ${realSignal}; it will not be suggested again in this workspace.`);
+  };
+
+  /**
+   * Terminal: 'ai rejected' lists the signals AI Scan & Suggest skips, 'ai rejected clear' forgets them.
+   */
+  const handleRejectedCommand = (arg: string) => {
+    if (arg.toLowerCase() === 'clear') {
+      addLog(`Success: Cleared ${rejectedSignals.length} rejected signal(s).`);
+      setRejectedSignals([]);
+    } else if (arg) {
+      addLog("Error: Usage 'ai rejected [clear]'");
+    } else {
+      addLog(rejectedSignals.length > 0
+        ? [`Info: ${rejectedSignals.length} rejected signal(s):`, ...rejectedSignals.map(s => `  ${s}`)].join('\n')
+        : "Info: No rejected AI suggestions in this workspace.");
     }
   };
 
   const handleAiTransform = async () => {
+    if (!aiProvider) {
+      addLog("Info: No AI provider is configured. Open the AI settings in the header (or type 'ai settings').");
+      setIsAiSettingsOpen(true);
+      return;
+    }
+    if (engine.error || !fromProfile || !toProfile) {
+      addLog(`Error: ${engine.error ?? 'Unknown profile'}. Pick two different profiles with 'mode <from> <to>'.`);
+      return;
+    }
     setIsAiProcessing(true);
-    addLog("Info: Starting AI Code Transformation...");
+    addLog(`Info: Starting AI Code Transformation with ${aiProvider.label}...`);
     try {
-      const transformed = await transformCodeWithAI(inputCode, mode, mappings);
-      setOutputCode(transformed);
-      setChangeCount(null);
-      addLog("Success: AI Transformation complete.");
+      const transformed = await transformCodeWithAI(inputCode, fromProfile, toProfile, engineMappings, aiProvider);
+      const guard = checkAiRefactor(inputCode, transformed, engineMappings);
+      addLog(`${guard.unexpected > 0 ? 'Warning' : 'Info'}: ${formatAiGuardResult(guard)}`);
+      setAiReview({ original: inputCode, aiCode: transformed, guard, provider: aiProvider.label });
     } catch (err) {
-      addLog("Error: AI Transformation failed.");
-      alert("AI Transformation failed. Check console.");
+      addLog(`Error: ${(err as Error).message}`);
+      alert("AI Transformation failed. Check the terminal for details.");
     } finally {
       setIsAiProcessing(false);
     }
   };
 
+  const acceptAiResult = (code: string, acceptedHunks: number) => {
+    const total = aiReview?.guard.hunks.length ?? 0;
+    const partial = acceptedHunks < total ? `, ${acceptedHunks} of ${total} hunks` : '';
+    recordEdit(`AI transformation (${conversionLabel}${partial})`, { outputCode: code });
+    setChangeCount(null);
+    setReplacements([]);
+    setIssues([]);
+    setAiReview(null);
+    addLog(`Success: AI Transformation accepted${partial}.`);
+  };
+
+  const rejectAiResult = () => {
+    setAiReview(null);
+    addLog("Info: AI Transformation rejected; the output is unchanged.");
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(outputCode);
     setCopied(true);
@@ -87,6 +320,10 @@ const App: React.FC = () => {
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if ((e.target.files?.length ?? 0) > 1) {
+      handleProjectUpload(e);
+      return;
+    }
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -94,7 +331,7 @@ const App: React.FC = () => {
     reader.onload = (event) => {
       const content = event.target?.result as string;
       if (content) {
-        setInputCode(content);
+        recordEdit(`Loaded file '${file.name}'`, { inputCode: content });
         addLog(`Success: Loaded file '${file.name}' (${content.length} bytes).`);
       }
     };
@@ -102,22 +339,120 @@ const App: React.FC = () => {
     e.target.value = '';
   };
 
+  // Several files or a folder: keep relative paths so includes resolve
+  const handleProjectUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from<File>(e.target.files ?? [])
+      .filter(f => CAPL_FILE_EXTENSIONS.some(ext => f.name.toLowerCase().endsWith(ext)));
+    e.target.value = '';
+    if (selected.length === 0) {
+      addLog("Error: No .can/.cin files in selection.");
+      return;
+    }
+
+    Promise.all(selected.map(async (f): Promise<ProjectFile> => ({
+      path: normalizePath(f.webkitRelativePath || f.name),
+      content: await f.text(),
+    }))).then((files) => {
+      files.sort((a, b) => a.path.localeCompare(b.path));
+      const first = files.find(f => f.path.toLowerCase().endsWith('.can')) ?? files[0];
+      recordEdit(`Loaded project (${files.length} files)`, { project: files, activeFile: first.path, inputCode: first.content });
+      addLog(`Success: Loaded project with ${files.length} file(s).`);
+      addLog(formatProjectTree(transformProject(files, mode, engineMappings, transformOptions)));
+    }).catch(err => addLog(`Error: Could not read project files: ${(err as Error).message}`));
+  };
+
+  const selectProjectFile = (path: string) => {
+    const file = project?.find(f => f.path === path);
+    if (!file) return;
+    setActiveFile(path);
+    setInputCode(file.content);
+  };
+
+  // Edits in the source panel belong to the active project file
+  const sourceEdit = (value: string): Partial<EditorSnapshot> => ({
+    inputCode: value,
+    ...(project && activeFile ? { project: project.map(f => (f.path === activeFile ? { ...f, content: value } : f)) } : {}),
+  });
+
+  const handleInputChange = (value: string) => {
+    recordEdit(activeFile ? `Edited ${activeFile}` : 'Edited source', sourceEdit(value), true);
+  };
+
+  const handleCloseProject = () => {
+    recordEdit('Closed project', { project: null, activeFile: null });
+    addLog("Info: Project closed. Source panel keeps the last opened file.");
+  };
+
+  const handleDownloadZip = () => {
+    if (!projectResult) {
+      addLog("Error: No project loaded. Use 'upload folder' first.");
+      return;
+    }
+    const zip = createZip(projectResult.files.map(f => ({ path: f.path, content: f.result.code })));
+    const filename = `transformed_${outputName}.zip`;
+    downloadBlob(new Blob([zip], { type: 'application/zip' }), filename);
+    addLog(`Success: Downloaded '${filename}' (${projectResult.files.length} files, ${projectResult.totalChanges} replacements).`);
+  };
+
   const handleMappingFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const parsed = parseMappingFile(event.target?.result as string, file.name.replace(/\.json$/i, ''));
+      if ('errors' in parsed) {
+        addLog(`Error: '${file.name}' is not a valid mapping file:\n${formatValidationErrors(parsed.errors)}`);
+        return;
+      }
+      const { header, profiles: loadedProfiles = [], mappings: loaded } = parsed.document;
+      recordEdit(`Imported '${file.name}'`, { mappings: loaded, profiles: loadedProfiles, conversion: keepConversion(loadedProfiles) });
+      setMappingHeader(header);
+      addLog(`Success: Loaded ${loaded.length} mappings for project '${header.project}' from '${file.name}'.`);
+      if (parsed.migratedFrom) {
+        addLog(`Info: Migrated legacy format (version ${parsed.migratedFrom}) to version ${header.schemaVersion}. Export to save it in the new format.`);
+      }
+      addLog(formatFindingsSummary(analyzeConversion(loaded, loadedProfiles, keepConversion(loadedProfiles))));
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleDbcFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const db = parseDbc(event.target?.result as string);
+      const incoming = createMappingsFromDbc(db, dbcStyleRef.current);
+      if (incoming.length === 0) {
+        addLog(`Error: No BO_/SG_ definitions found in '${file.name}'.`);
+        return;
+      }
+      const merged = mergeMappings(mappings, incoming);
+      recordEdit(`Imported DBC '${file.name}'`, { mappings: merged.mappings });
+      setMappingHeader(h => addHeaderReference(h, 'dbc', file.name));
+      addLog(`Success: Parsed ${db.messages.length} messages / ${incoming.length} signals from '${file.name}'. Added ${merged.added} mappings.`);
+      db.warnings.forEach(w => addLog(`Info: Warning - ${w}`));
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleVsysvarFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
-        const json = JSON.parse(event.target?.result as string);
-        if (Array.isArray(json)) {
-            setMappings(json);
-            addLog(`Success: Loaded ${json.length} mappings from '${file.name}'.`);
-        } else {
-            addLog("Error: Invalid JSON format. Expected an array.");
-        }
+        const decl = parseVsysvarXml(event.target?.result as string, file.name);
+        setSysvars(decl);
+        setMappingHeader(h => addHeaderReference(h, 'vsysvar', file.name));
+        addLog(`Success: Loaded ${decl.variables.length} system variables in ${decl.namespaces.length} namespaces from '${file.name}'.`);
       } catch (err) {
-        addLog("Error: Failed to parse JSON file.");
+        addLog(`Error: Invalid .vsysvar file: ${(err as Error).message}`);
       }
     };
     reader.readAsText(file);
@@ -133,7 +468,7 @@ const App: React.FC = () => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    const filename = `transformed_${mode === TestMode.SIL ? 'SIL' : 'HIL'}.can`;
+    const filename = `transformed_${outputName}.can`;
     link.download = filename;
     document.body.appendChild(link);
     link.click();
@@ -143,39 +478,475 @@ const App: React.FC = () => {
   };
 
   const handleExportCLI = () => {
-    // Inject current mappings into the Node.js template
-    const scriptContent = NODE_CLI_TEMPLATE.replace(
-      '__MAPPINGS_JSON__', 
-      JSON.stringify(mappings, null, 2)
-    );
-    
-    const blob = new Blob([scriptContent], { type: 'application/javascript' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'capl-transformer.js';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    addLog("Success: Exported 'capl-transformer.js' for CI/CD usage.");
+    // Embed the current settings as the CLI defaults (see cli/index.ts)
+    const config = JSON.stringify({ conversion, profiles, accessStyle, ...(isDual ? { dualSwitch: effectiveSwitch } : {}), mappings });
+    const scriptContent = CLI_BUNDLE.replace('"__CAPL_EMBEDDED_CONFIG__"', () => JSON.stringify(config));
+    downloadTextFile(scriptContent, 'capl-transformer.cjs', 'application/javascript');
+    addLog(`Success: Exported 'capl-transformer.cjs' for CI/CD usage (${mappings.length} rules, default conversion ${conversionLabel}).`);
+  };
+
+  const handleExportGateway = ({ direction, cycleMs }: Pick<GatewayOptions, 'direction' | 'cycleMs'>) => {
+    const { code, bridged, skipped } = createGatewayNode(mappings, { direction, cycleMs, accessStyle }, `Gateway node for ${mappingHeader.project}`);
+    if (bridged.length === 0) {
+      addLog("Error: No rule can be bridged. A gateway needs signal rules from a real signal to a sysvar::A::B path.");
+      setIsTerminalOpen(true);
+      return;
+    }
+    downloadTextFile(code, 'gateway.can');
+    addLog(`Success: Downloaded 'gateway.can' (${bridged.length} signals, ${GATEWAY_DIRECTION_LABELS[direction]}${cycleMs > 0 ? `, every ${cycleMs} ms` : ''}).`);
+    if (skipped.length > 0) {
+      addLog(`Warning: ${skipped.length} rule(s) skipped:\n${skipped.map(s => `  ${s.mapping.id}: ${s.reason}`).join('\n')}`);
+      setIsTerminalOpen(true);
+    }
+  };
+
+  // gateway [sysvar|signal|both] [<ms>]
+  const handleGatewayCommand = (arg: string) => {
+    const directions: Record<string, GatewayDirection> = { sysvar: 'toSysvar', signal: 'toSignal', both: 'both' };
+    let direction: GatewayDirection = 'both';
+    let cycleMs = 0;
+    for (const word of arg.toLowerCase().split(/\s+/).filter(Boolean)) {
+      const key = word.replace(/^to-?/, '');
+      const ms = /^(\d+)(ms)?$/.exec(word);
+      if (directions[key]) direction = directions[key];
+      else if (ms) cycleMs = Number(ms[1]);
+      else {
+        addLog(`Error: Unknown gateway option '${word}'. Usage 'gateway [sysvar|signal|both] [<cycle ms>]'`);
+        return;
+      }
+    }
+    handleExportGateway({ direction, cycleMs });
   };
 
   const handleClear = () => {
-    setInputCode("");
+    recordEdit('Cleared source', sourceEdit(""));
     addLog("Info: Source code cleared.");
   };
 
+  const selectChange = (index: number) => {
+    setActiveChange(index);
+    setHighlightedMappingId(replacements[index]?.mappingId ?? null);
+  };
+
+  const stepChange = (delta: number) => {
+    if (replacements.length === 0) return;
+    const current = activeChange ?? (delta > 0 ? -1 : 0);
+    selectChange((current + delta + replacements.length) % replacements.length);
+  };
+
+  const handleVerifyRoundTrip = () => {
+    if (isDual) {
+      addLog("Info: Dual output keeps both variants; switch to converted output to verify the round-trip.");
+      setIsTerminalOpen(true);
+      return;
+    }
+    const result = verifyRoundTrip(inputCode, mode, engineMappings, transformOptions);
+    addLog(formatRoundTripResult(result));
+    setIsTerminalOpen(true);
+  };
+
   const handleSwap = () => {
     if (!outputCode) {
       addLog("Error: No output code available to swap.");
       return;
     }
-    setInputCode(outputCode);
-    setOutputCode("");
-    const newMode = mode === TestMode.SIL ? TestMode.HIL : TestMode.SIL;
-    setMode(newMode);
-    addLog(`Success: Swapped Output to Source. Switched mode to ${newMode}.`);
+    if (isDual) {
+      addLog("Error: Dual output cannot be swapped; switch to converted output first.");
+      return;
+    }
+    const reversed = { from: conversion.to, to: conversion.from };
+    const label = formatConversion(allProfiles, reversed);
+    recordEdit(`Swapped output to source (${label})`, { inputCode: outputCode, outputCode: "", conversion: reversed });
+    addLog(`Success: Swapped Output to Source. Switched to ${label}.`);
+  };
+
+  // --- Undo / Redo ---
+  const captureSnapshot = (): EditorSnapshot => ({ inputCode, outputCode, project, activeFile, mappings, profiles, conversion });
+
+  const applySnapshot = (snapshot: EditorSnapshot) => {
+    setInputCode(snapshot.inputCode);
+    setOutputCode(snapshot.outputCode);
+    setProject(snapshot.project);
+    setActiveFile(snapshot.activeFile);
+    setMappings(snapshot.mappings);
+    setProfiles(snapshot.profiles);
+    setConversion(snapshot.conversion);
+  };
+
+  /**
+   * Applies an edit and records it as an undoable step. The step being left
+   * is refreshed first, so it also holds changes that are not steps of their
+   * own (recomputed output, file selection).
+   */
+  const recordEdit = (label: string, patch: Partial<EditorSnapshot>, coalesce = false) => {
+    const current = captureSnapshot();
+    const next = { ...current, ...patch };
+    applySnapshot(next);
+    setHistory(h => pushHistory(amendHistory(h, current), label, next, coalesce));
+  };
+
+  const changeConversion = (next: Conversion) => {
+    if (next.from === conversion.from && next.to === conversion.to) return;
+    const label = formatConversion(allProfiles, next);
+    recordEdit(`Switched to ${label}`, { conversion: next });
+    addLog(`Info: Converting ${label}.`);
+  };
+
+  // The current conversion, or the default one if it uses a profile not in `next`
+  const keepConversion = (next: EnvironmentProfile[]): Conversion => {
+    const ids = getProfiles(next).map(p => p.id);
+    return ids.includes(conversion.from) && ids.includes(conversion.to) ? conversion : conversionForMode(INITIAL_MODE);
+  };
+
+  // Removed profiles take their column of the mapping table with them
+  const changeProfiles = (next: EnvironmentProfile[], label: string, baseMappings: SignalMapping[] = mappings) => {
+    const removed = profiles.filter(p => !next.some(n => n.id === p.id));
+    recordEdit(label, {
+      profiles: next,
+      mappings: removed.reduce((list, p) => removeProfileColumn(list, p.id), baseMappings),
+      conversion: keepConversion(next),
+    });
+  };
+
+  const handleHistoryJump = (index: number) => {
+    const entries = historyEntries<EditorSnapshot>(history);
+    const current = history.past.length;
+    if (index === current || !entries[index]) return;
+    setHistory(jumpHistory(amendHistory(history, captureSnapshot()), index));
+    applySnapshot(entries[index].state);
+    addLog(index < current
+      ? `Info: Undo: ${entries.slice(index + 1, current + 1).reverse().map(e => e.label).join(', ')}`
+      : `Info: Redo: ${entries.slice(current + 1, index + 1).map(e => e.label).join(', ')}`);
+  };
+
+  const handleUndo = () => {
+    if (history.past.length === 0) addLog("Info: Nothing to undo.");
+    else handleHistoryJump(history.past.length - 1);
+  };
+
+  const handleRedo = () => {
+    if (history.future.length === 0) addLog("Info: Nothing to redo.");
+    else handleHistoryJump(history.past.length + 1);
+  };
+
+  historyShortcutRef.current = redo => (redo ? handleRedo() : handleUndo());
+
+  // --- Workspaces ---
+  const captureWorkspaceState = (): WorkspaceState => ({
+    inputCode, project, activeFile, mappings, mappingHeader, profiles, conversion, accessStyle, outputStyle, dualSwitch, sysvars, rejectedSignals, terminalLogs,
+  });
+
+  const applyWorkspace = (workspace: Workspace) => {
+    skipAutosaveRef.current = true;
+    setInputCode(workspace.inputCode);
+    setProject(workspace.project);
+    setActiveFile(workspace.activeFile);
+    setMappings(workspace.mappings);
+    setMappingHeader(workspace.mappingHeader);
+    setProfiles(workspace.profiles);
+    setConversion(workspace.conversion);
+    setAccessStyle(workspace.accessStyle);
+    setOutputStyle(workspace.outputStyle);
+    setDualSwitch(workspace.dualSwitch);
+    setSysvars(workspace.sysvars);
+    setRejectedSignals(workspace.rejectedSignals);
+    setTerminalLogs(workspace.terminalLogs);
+    setHighlightedMappingId(null);
+    setHistory(createHistory({ ...workspace, outputCode: "" }, `Opened workspace '${workspace.name}'`));
+    setWorkspaceId(workspace.id);
+    setActiveWorkspaceId(workspace.id);
+  };
+
+  const storeWorkspace = async (workspace: Workspace) => {
+    await putWorkspace(workspace);
+    setWorkspaces(prev => [toWorkspaceInfo(workspace), ...prev.filter(w => w.id !== workspace.id)]);
+  };
+
+  const currentWorkspace = (): Workspace | null => {
+    const info = workspaces.find(w => w.id === workspaceId);
+    return info ? { ...info, ...captureWorkspaceState(), updatedAt: new Date().toISOString() } : null;
+  };
+
+  const saveCurrentWorkspace = async () => {
+    const workspace = currentWorkspace();
+    if (workspace) await storeWorkspace(workspace);
+  };
+
+  const runWorkspaceAction = (action: () => Promise<void>) => {
+    action().catch(err => addLog(`Error: Workspace storage: ${(err as Error).message}`));
+  };
+
+  const handleOpenWorkspace = (nameOrId: string) => runWorkspaceAction(async () => {
+    const target = findWorkspace(workspaces, nameOrId);
+    if (!target) {
+      addLog(`Error: No workspace '${nameOrId}'. Type 'ws list'.`);
+      return;
+    }
+    if (target.id === workspaceId) {
+      addLog(`Info: Workspace '${target.name}' is already open.`);
+      return;
+    }
+    await saveCurrentWorkspace();
+    const workspace = await getWorkspace(target.id);
+    if (!workspace) throw new Error(`'${target.name}' no longer exists`);
+    applyWorkspace(workspace);
+    addLog(`Success: Opened workspace '${workspace.name}'.`);
+  });
+
+  const handleNewWorkspace = (name: string) => runWorkspaceAction(async () => {
+    await saveCurrentWorkspace();
+    const uniqueName = uniqueWorkspaceName(workspaces, name);
+    const workspace = createWorkspace(uniqueName, {
+      inputCode: DEFAULT_CAPL_CODE,
+      project: null,
+      activeFile: null,
+      mappings: DEFAULT_MAPPINGS,
+      mappingHeader: createMappingHeader(uniqueName),
+      profiles: [],
+      conversion: conversionForMode(INITIAL_MODE),
+      accessStyle: 'at',
+      outputStyle: 'convert',
+      dualSwitch: '',
+      sysvars: null,
+      rejectedSignals: [],
+      terminalLogs: [],
+    });
+    await storeWorkspace(workspace);
+    applyWorkspace(workspace);
+    addLog(`Success: Created workspace '${uniqueName}'.`);
+  });
+
+  const handleDuplicateWorkspace = (name: string) => runWorkspaceAction(async () => {
+    await saveCurrentWorkspace();
+    const workspace = createWorkspace(uniqueWorkspaceName(workspaces, name), captureWorkspaceState());
+    await storeWorkspace(workspace);
+    applyWorkspace(workspace);
+    addLog(`Success: Saved a copy as workspace '${workspace.name}' and switched to it.`);
+  });
+
+  const handleRenameWorkspace = (name: string) => runWorkspaceAction(async () => {
+    const workspace = currentWorkspace();
+    if (!workspace) return;
+    const others = workspaces.filter(w => w.id !== workspace.id);
+    const newName = uniqueWorkspaceName(others, name);
+    await storeWorkspace({ ...workspace, name: newName });
+    addLog(`Success: Renamed workspace '${workspace.name}' to '${newName}'.`);
+  });
+
+  const handleDeleteWorkspace = (nameOrId: string) => runWorkspaceAction(async () => {
+    const target = findWorkspace(workspaces, nameOrId);
+    if (!target) {
+      addLog(`Error: No workspace '${nameOrId}'. Type 'ws list'.`);
+      return;
+    }
+    if (target.id === workspaceId) {
+      addLog("Error: Cannot delete the open workspace. Open another one first.");
+      return;
+    }
+    await deleteWorkspace(target.id);
+    setWorkspaces(prev => prev.filter(w => w.id !== target.id));
+    addLog(`Success: Deleted workspace '${target.name}'.`);
+  });
+
+  const handleExportWorkspace = () => {
+    const workspace = currentWorkspace();
+    if (!workspace) {
+      addLog("Error: No workspace open.");
+      return;
+    }
+    const filename = `${workspace.name.replace(/[^\w.-]+/g, '_')}.capl-workspace.json`;
+    downloadTextFile(createWorkspaceFile(workspace), filename, 'application/json');
+    addLog(`Success: Exported workspace '${workspace.name}' as '${filename}'.`);
+  };
+
+  const handleWorkspaceFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+
+    file.text().then(text => runWorkspaceAction(async () => {
+      const parsed = parseWorkspaceFile(text);
+      if ('errors' in parsed) {
+        addLog(`Error: '${file.name}' is not a valid workspace file:\n${formatValidationErrors(parsed.errors)}`);
+        return;
+      }
+      await saveCurrentWorkspace();
+      const workspace = { ...parsed.workspace, name: uniqueWorkspaceName(workspaces, parsed.workspace.name) };
+      await storeWorkspace(workspace);
+      applyWorkspace(workspace);
+      addLog(`Success: Imported workspace '${workspace.name}' from '${file.name}'.`);
+    })).catch(err => addLog(`Error: Could not read '${file.name}': ${(err as Error).message}`));
+  };
+
+  const handleWorkspaceCommand = (arg: string) => {
+    const space = arg.indexOf(' ');
+    const sub = (space === -1 ? arg : arg.slice(0, space)).toLowerCase();
+    const name = space === -1 ? '' : arg.slice(space + 1).trim().replace(/^"|"$/g, '');
+    const current = workspaces.find(w => w.id === workspaceId);
+
+    switch (sub) {
+      case '':
+      case 'list':
+      case 'ls':
+        addLog(workspaces.length === 0
+          ? "Info: No stored workspaces."
+          : `Info: ${workspaces.length} workspace(s):\n${workspaces.map(w => `  ${w.id === workspaceId ? '*' : ' '} ${w.name}  (updated ${new Date(w.updatedAt).toLocaleString()})`).join('\n')}`);
+        break;
+      case 'open':
+      case 'switch':
+        if (name) handleOpenWorkspace(name);
+        else addLog("Error: Usage 'ws open <name>'");
+        break;
+      case 'save':
+        if (name && name.toLowerCase() !== current?.name.toLowerCase()) {
+          handleDuplicateWorkspace(name);
+        } else {
+          runWorkspaceAction(async () => {
+            await saveCurrentWorkspace();
+            addLog(`Success: Saved workspace '${current?.name}'.`);
+          });
+        }
+        break;
+      case 'new':
+        handleNewWorkspace(name || 'New workspace');
+        break;
+      case 'duplicate':
+      case 'copy':
+        handleDuplicateWorkspace(name || `${current?.name ?? 'Workspace'} (copy)`);
+        break;
+      case 'rename':
+        if (name) handleRenameWorkspace(name);
+        else addLog("Error: Usage 'ws rename <new name>'");
+        break;
+      case 'delete':
+      case 'rm':
+        if (name) handleDeleteWorkspace(name);
+        else addLog("Error: Usage 'ws delete <name>'");
+        break;
+      case 'export':
+        handleExportWorkspace();
+        break;
+      case 'import':
+        addLog("Action: Opening workspace file selector (.json)...");
+        workspaceInputRef.current?.click();
+        break;
+      default:
+        addLog(`Error: Unknown workspace command '${sub}'. Use list, open, save, new, duplicate, rename, delete, export or import.`);
+    }
+  };
+
+  // Switches between converted and dual output; sets the switch variable
+  const changeOutputStyle = (style: OutputStyle, switchName = dualSwitch) => {
+    const name = switchName.trim();
+    if (name && !parseSysvarPath(name)) {
+      addLog(`Error: '${name}' is not a sysvar path like Env::IsSIL.`);
+      return;
+    }
+    setOutputStyle(style);
+    setDualSwitch(name);
+    addLog(style === 'dual'
+      ? `Info: Dual output: @sysvar::${name || defaultDualSwitch(conversion.to)} selects ${toProfile?.name ?? conversion.to} at run time, otherwise ${fromProfile?.name ?? conversion.from}.`
+      : `Info: Converted output (${conversionLabel}).`);
+  };
+
+  const handleDualCommand = (arg: string) => {
+    const value = arg.trim();
+    if (!value) {
+      addLog(isDual
+        ? `Info: Dual output is on (switch @sysvar::${effectiveSwitch}). Usage 'dual on|off|<switch sysvar>'`
+        : "Info: Dual output is off. Usage 'dual on|off|<switch sysvar>'");
+    } else if (value.toLowerCase() === 'on') {
+      changeOutputStyle('dual');
+    } else if (value.toLowerCase() === 'off') {
+      changeOutputStyle('convert');
+    } else {
+      changeOutputStyle('dual', value.replace(/^@?sysvar::/, ''));
+    }
+  };
+
+  // mode <to> | mode <from> <to> | mode <from> -> <to>; h and s are short for HIL and SIL
+  const handleModeCommand = (arg: string) => {
+    if (!arg) {
+      addLog(`Info: Converting ${conversionLabel}. Usage 'mode <to>' or 'mode <from> <to>' (profiles: ${allProfiles.map(p => p.name).join(', ')})`);
+      return;
+    }
+    const resolve = (name: string) => {
+      const clean = name.trim().replace(/^"|"$/g, '');
+      return findProfile(allProfiles, ({ h: TestMode.HIL, s: TestMode.SIL } as Record<string, string>)[clean.toLowerCase()] ?? clean);
+    };
+    const parts = arg.includes('->') ? arg.split('->') : arg.split(/\s+/);
+    const pair = parts.length === 2 ? parts.map(resolve) : [];
+    const single = resolve(arg);
+
+    let next: Conversion;
+    if (pair.length === 2 && pair[0] && pair[1]) {
+      next = { from: pair[0].id, to: pair[1].id };
+    } else if (single) {
+      // Naming the current source profile reverses the direction
+      next = single.id === conversion.from
+        ? { from: conversion.to, to: conversion.from }
+        : { from: conversion.from, to: single.id };
+    } else {
+      addLog(`Error: No profile '${arg}'. Type 'profile list'.`);
+      return;
+    }
+
+    if (next.from === next.to) {
+      addLog(`Error: Cannot convert '${findProfile(allProfiles, next.from)?.name}' to itself.`);
+    } else if (next.from === conversion.from && next.to === conversion.to) {
+      addLog(`Info: Already converting ${conversionLabel}.`);
+    } else {
+      changeConversion(next);
+    }
+  };
+
+  const handleProfileCommand = (arg: string) => {
+    const space = arg.indexOf(' ');
+    const sub = (space === -1 ? arg : arg.slice(0, space)).toLowerCase();
+    const rest = space === -1 ? '' : arg.slice(space + 1).trim();
+
+    switch (sub) {
+      case '':
+      case 'list':
+      case 'ls': {
+        const marker = (id: string) => (id === conversion.from ? 'from' : id === conversion.to ? 'to' : '');
+        addLog(`Info: ${allProfiles.length} profile(s), converting ${conversionLabel}:\n${allProfiles.map(p =>
+          `  ${marker(p.id).padEnd(4)} ${p.name.padEnd(12)} ${PROFILE_KIND_LABELS[p.kind].padEnd(16)}  ${mappings.filter(m => getColumn(m, p.id)).length}/${mappings.length} rules`
+        ).join('\n')}`);
+        break;
+      }
+      case 'add':
+      case 'new': {
+        const match = rest.match(/^(.*?)(?:\s+(signal|sysvar))?$/i);
+        const name = (match?.[1] ?? '').trim().replace(/^"|"$/g, '');
+        const kind = (match?.[2]?.toLowerCase() ?? 'signal') as ProfileKind;
+        if (!name) {
+          addLog("Error: Usage 'profile add <name> [signal|sysvar]'");
+        } else if (findProfile(allProfiles, name)) {
+          addLog(`Error: Profile '${name}' already exists.`);
+        } else {
+          changeProfiles([...profiles, { id: createProfileId(allProfiles, name), name, kind }], `Added profile ${name}`);
+          addLog(`Success: Added profile '${name}' (${PROFILE_KIND_LABELS[kind]}). Fill in its column in the mapping table.`);
+        }
+        break;
+      }
+      case 'remove':
+      case 'rm':
+      case 'delete': {
+        const target = rest && findProfile(allProfiles, rest.replace(/^"|"$/g, ''));
+        if (!target) {
+          addLog(rest ? `Error: No profile '${rest}'. Type 'profile list'.` : "Error: Usage 'profile remove <name>'");
+        } else if (isBuiltinProfile(target.id)) {
+          addLog(`Error: '${target.name}' is a built-in profile and cannot be removed.`);
+        } else {
+          changeProfiles(profiles.filter(p => p.id !== target.id), `Removed profile ${target.name}`);
+          addLog(`Success: Removed profile '${target.name}' and its mapping column.`);
+        }
+        break;
+      }
+      default:
+        addLog(`Error: Unknown profile command '${sub}'. Use list, add or remove.`);
+    }
   };
 
   // --- CLI Command Parser ---
@@ -198,12 +969,22 @@ const App: React.FC = () => {
     switch (cmd) {
       case 'help':
       case '?':
-        addLog("Available commands:\n  upload [mapping] - Load file (code or json)\n  run              - Execute transform\n  download         - Save output\n  export           - Export CI/CD CLI Tool\n  swap             - Output -> Input & Switch Mode\n  mode [h/s]       - Set HIL or SIL\n  clear            - Clear source\n  docs             - Open Manual");
+        addLog("Available commands:\n  upload [mapping] - Load file (code or json)\n  upload folder    - Load a project folder (.can/.cin)\n  upload dbc [$]   - Import DBC signals (Msg.Sig or $Sig)\n  upload vsysvar   - Load .vsysvar to validate sysvars\n  run [--strict]   - Execute transform (strict: refuse undeclared sysvars)\n  download [zip]   - Save output (zip: whole project)\n  project          - Show project include tree\n  report [json]    - Show replacement report (or export JSON)\n  export           - Export CI/CD CLI Tool\n  gateway [dir] [ms] - Download a gateway node (dir: sysvar|signal|both)\n  swap             - Output -> Input & reverse direction\n  verify           - Check that the round-trip reproduces the source\n  check            - Analyze mapping table consistency\n  check output     - List source-environment references left in output\n  scan [add]       - List unmapped signals in source (add: create rules)\n  dual [on|off|sw] - Keep both variants behind switch sysvar sw\n  mode [from] <to> - Set conversion, e.g. 'mode sil', 'mode hil bench'\n  profile list     - List environment profiles\n  profile add <name> [signal|sysvar], profile remove <name>\n  undo / redo      - Step through edit history (Ctrl+Z / Ctrl+Y)\n  history          - List undo steps\n  ws list          - List saved workspaces\n  ws open <name>   - Switch workspace\n  ws save [name]   - Save now (name: save as a new workspace)\n  ws new|duplicate|rename|delete <name>, ws export|import\n  access [style]   - SIL sysvar syntax: at | function | bare\n  ai [settings|off] - Show, configure or disable the AI provider\n  ai rejected [clear] - List (or forget) rejected AI mapping suggestions\n  clear            - Clear source\n  docs             - Open Manual");
         break;
       case 'upload':
       case 'load':
-        // Check for specific target argument (mapping vs code)
-        if (arg && (arg.includes('map') || arg.includes('rule') || arg.includes('json'))) {
+        // Check for specific target argument (dbc vs mapping vs code)
+        if (arg.toLowerCase().startsWith('dbc')) {
+             dbcStyleRef.current = arg.includes('$') ? 'dollar' : 'message';
+             addLog("Action: Opening DBC file selector (.dbc)...");
+             dbcInputRef.current?.click();
+        } else if (arg.toLowerCase().startsWith('folder') || arg.toLowerCase().startsWith('project')) {
+             addLog("Action: Opening project folder selector...");
+             folderInputRef.current?.click();
+        } else if (arg.toLowerCase().startsWith('vsysvar') || arg.toLowerCase().startsWith('sysvar')) {
+             addLog("Action: Opening system variable file selector (.vsysvar)...");
+             vsysvarInputRef.current?.click();
+        } else if (arg && (arg.includes('map') || arg.includes('rule') || arg.includes('json'))) {
              addLog("Action: Opening mapping file selector (.json)...");
              mappingInputRef.current?.click();
         } else {
@@ -221,17 +1002,85 @@ const App: React.FC = () => {
         break;
       case 'run':
       case 'transform':
-        handleLocalTransform(true);
+        handleLocalTransform(true, arg.includes('--strict'));
         break;
       case 'download':
       case 'save':
-        handleDownload();
+        if (arg.toLowerCase() === 'zip') handleDownloadZip();
+        else handleDownload();
+        break;
+      case 'project':
+      case 'tree':
+        addLog(projectResult ? formatProjectTree(projectResult) : "Info: No project loaded. Use 'upload folder'.");
+        break;
+      case 'report':
+        if (arg.toLowerCase() === 'json') {
+          handleExportReport();
+        } else {
+          const result = performLocalTransformation(inputCode, mode, engineMappings, transformOptions);
+          addLog(`Info: ${result.changes} replacements (${conversionLabel}).`);
+          if (result.replacements.length > 0) {
+            addLog(result.replacements.map(formatReplacement).join('\n'));
+          }
+          if (result.issues.length > 0) {
+            addLog(`Info: ${result.issues.length} issue(s):\n${result.issues.map(formatIssue).join('\n')}`);
+          }
+          setIsReportOpen(true);
+        }
         break;
       case 'export':
       case 'batch':
       case 'cli':
         handleExportCLI();
         break;
+      case 'ai':
+        if (arg.toLowerCase() === 'settings') {
+          setIsAiSettingsOpen(true);
+        } else if (arg.toLowerCase() === 'off') {
+          changeAiSettings({ ...aiSettings, provider: 'none' });
+        } else if (/^rejected\b/i.test(arg)) {
+          handleRejectedCommand(arg.slice('rejected'.length).trim());
+        } else {
+          addLog(aiProvider
+            ? `Info: AI provider: ${aiProvider.label}. Usage 'ai settings|off|rejected [clear]'`
+            : `Info: AI features are disabled (${aiSettingsProblem(aiSettings)}). Use 'ai settings' to configure a provider.`);
+        }
+        break;
+      case 'gateway':
+      case 'bridge':
+        handleGatewayCommand(arg);
+        break;
+      case 'check':
+      case 'lint':
+        if (arg.toLowerCase() === 'output' && isDual) {
+          addLog("Info: Dual output keeps both variants on purpose; switch to converted output to check for leftovers.");
+        } else if (arg.toLowerCase() === 'output') {
+          const leftovers = findLeftoverSignals(outputCode, mode, engineMappings, sameKind);
+          const kind = leftoverKind(mode, sameKind);
+          const target = toProfile?.name ?? conversion.to;
+          addLog(leftovers.length === 0
+            ? `Success: No ${kind} references left in the ${target} output.`
+            : `Error: ${leftovers.length} ${kind} reference(s) left in the ${target} output:\n${leftovers.map(formatLeftover).join('\n')}`);
+        } else {
+          addLog(formatFindingsSummary(analyzeConversion(mappings, profiles, conversion)));
+        }
+        break;
+      case 'scan':
+      case 'unmapped': {
+        const unmapped = findUnmappedSignals(inputCode, mappings);
+        addLog(formatUnmappedSignals(unmapped));
+        if (arg.toLowerCase() === 'add' && unmapped.length > 0) {
+          const created: SignalMapping[] = [];
+          unmapped.forEach(s => created.push(createMappingForUnmapped(s, getNextMappingId([...mappings, ...created]))));
+          recordEdit(`Added ${created.length} rule(s) for unmapped signals`, { mappings: [...mappings, ...created] });
+          addLog(`Success: Added ${created.length} pre-filled rule(s). Review their SIL targets in the sidebar.`);
+        }
+        break;
+      }
+      case 'verify':
+      case 'roundtrip':
+        handleVerifyRoundTrip();
+        break;
       case 'swap':
       case 'replace':
         handleSwap();
@@ -240,16 +1089,38 @@ const App: React.FC = () => {
         handleClear();
         break;
       case 'mode':
-        if (arg.toLowerCase() === 'hil' || arg.toLowerCase() === 'h') {
-          setMode(TestMode.HIL);
-          addLog("Info: Mode set to HIL (SysVar -> Real)");
-        } else if (arg.toLowerCase() === 'sil' || arg.toLowerCase() === 's') {
-          setMode(TestMode.SIL);
-          addLog("Info: Mode set to SIL (Real -> SysVar)");
+        handleModeCommand(arg);
+        break;
+      case 'profile':
+      case 'profiles':
+        handleProfileCommand(arg);
+        break;
+      case 'dual':
+        handleDualCommand(arg);
+        break;
+      case 'access':
+        if (['at', 'function', 'bare'].includes(arg.toLowerCase())) {
+          setAccessStyle(arg.toLowerCase() as SysvarAccessStyle);
+          addLog(`Info: SIL sysvar access style set to '${arg.toLowerCase()}'.`);
         } else {
-          addLog("Error: Usage 'mode hil' or 'mode sil'");
+          addLog(`Info: Current access style is '${accessStyle}'. Usage 'access at|function|bare'`);
         }
         break;
+      case 'undo':
+        handleUndo();
+        break;
+      case 'redo':
+        handleRedo();
+        break;
+      case 'history': {
+        const entries = historyEntries(history);
+        addLog(`Info: ${entries.length} step(s), newest last:\n${entries.map((e, i) => `  ${i === history.past.length ? '*' : ' '} ${String(i).padStart(3)}  ${e.label}`).join('\n')}`);
+        break;
+      }
+      case 'ws':
+      case 'workspace':
+        handleWorkspaceCommand(arg);
+        break;
       case 'readme':
       case 'docs':
       case 'man':
@@ -273,6 +1144,42 @@ const App: React.FC = () => {
         onChange={handleMappingFileUpload}
       />
 
+      {/* Hidden input for DBC imports */}
+      <input 
+        type="file" 
+        ref={dbcInputRef} 
+        className="hidden" 
+        accept=".dbc" 
+        onChange={handleDbcFileUpload}
+      />
+
+      {/* Hidden input for .vsysvar imports */}
+      <input 
+        type="file" 
+        ref={vsysvarInputRef} 
+        className="hidden" 
+        accept=".vsysvar,.xml" 
+        onChange={handleVsysvarFileUpload}
+      />
+
+      {/* Hidden input for workspace imports */}
+      <input 
+        type="file" 
+        ref={workspaceInputRef} 
+        className="hidden" 
+        accept=".json" 
+        onChange={handleWorkspaceFileUpload}
+      />
+
+      {/* Hidden input for project folders */}
+      <input 
+        type="file" 
+        ref={folderInputRef} 
+        className="hidden" 
+        multiple
+        onChange={handleProjectUpload}
+      />
+
       {/* Main Content Area */}
       <div className="flex-1 flex flex-col min-w-0 bg-gray-900 z-10">
         
@@ -286,28 +1193,47 @@ const App: React.FC = () => {
               <h1 className="text-xl font-bold text-white tracking-tight">CAPL Signal Transformer</h1>
               <p className="text-xs text-gray-500 font-medium">HIL ↔ SIL Automation Tool</p>
             </div>
+            <WorkspaceMenu
+              workspaces={workspaces}
+              activeId={workspaceId}
+              onOpen={handleOpenWorkspace}
+              onNew={handleNewWorkspace}
+              onDuplicate={handleDuplicateWorkspace}
+              onRename={handleRenameWorkspace}
+              onDelete={handleDeleteWorkspace}
+              onExport={handleExportWorkspace}
+              onImport={() => workspaceInputRef.current?.click()}
+            />
           </div>
 
           {/* Transformation Direction Viz */}
           <div className="flex flex-col items-center gap-2 hidden md:flex">
               <div className="flex items-center gap-4 text-sm font-medium">
-                  <span className={`transition-colors ${mode === TestMode.SIL ? 'text-green-400' : 'text-gray-600'}`}>Real Signals</span>
-                  
+                  <span className={`transition-colors ${fromProfile?.kind === 'sysvar' ? 'text-blue-400' : 'text-green-400'}`} title={fromProfile && PROFILE_KIND_LABELS[fromProfile.kind]}>
+                    {fromProfile?.name ?? conversion.from}
+                  </span>
+
                   <div className="flex items-center gap-1">
-                    <div className={`h-1 w-12 rounded-full transition-colors ${mode === TestMode.SIL ? 'bg-blue-500' : 'bg-gray-700'}`}></div>
-                    {mode === TestMode.SIL ? (
-                        <ArrowRight className="text-blue-500 -ml-2" size={16} />
-                    ) : (
-                        <ArrowLeft className="text-green-500 -mr-2" size={16} />
-                    )}
-                    <div className={`h-1 w-12 rounded-full transition-colors ${mode === TestMode.HIL ? 'bg-green-500' : 'bg-gray-700'}`}></div>
+                    <div className="h-1 w-12 rounded-full bg-gray-700"></div>
+                    <ArrowRight className={`-ml-2 ${toProfile?.kind === 'sysvar' ? 'text-blue-500' : 'text-green-500'}`} size={16} />
+                    <div className={`h-1 w-12 rounded-full transition-colors ${toProfile?.kind === 'sysvar' ? 'bg-blue-500' : 'bg-green-500'}`}></div>
                   </div>
 
-                  <span className={`transition-colors ${mode === TestMode.HIL ? 'text-blue-400' : 'text-gray-600'}`}>System Variables</span>
+                  <span className={`transition-colors ${toProfile?.kind === 'sysvar' ? 'text-blue-400' : 'text-green-400'}`} title={toProfile && PROFILE_KIND_LABELS[toProfile.kind]}>
+                    {toProfile?.name ?? conversion.to}
+                  </span>
               </div>
           </div>
 
           <div className="flex gap-3">
+             <HistoryPanel
+               entries={historyEntries(history)}
+               currentIndex={history.past.length}
+               onJump={handleHistoryJump}
+               onUndo={handleUndo}
+               onRedo={handleRedo}
+             />
+
              {/* New CI/CD Export Button */}
              <button 
                onClick={handleExportCLI}
@@ -318,6 +1244,18 @@ const App: React.FC = () => {
                 <span className="text-xs font-semibold hidden sm:inline">Export CLI</span>
              </button>
 
+             <GatewayMenu onDownload={handleExportGateway} />
+
+             {/* AI Provider Settings */}
+             <button
+               onClick={() => setIsAiSettingsOpen(true)}
+               className={`p-2 hover:bg-gray-800 rounded-lg transition-colors flex items-center gap-2 ${aiProvider ? 'text-purple-400 hover:text-purple-300' : 'text-gray-500 hover:text-white'}`}
+               title={aiProvider ? `AI: ${aiProvider.label}` : 'AI disabled - configure a provider'}
+             >
+                <Bot size={18} />
+                <span className="text-xs font-semibold hidden sm:inline">AI</span>
+             </button>
+
              {/* Docs Button */}
              <button 
                onClick={() => setIsReadmeOpen(true)}
@@ -328,34 +1266,35 @@ const App: React.FC = () => {
                 <span className="text-xs font-semibold hidden sm:inline">Docs</span>
              </button>
 
-             {/* Mode Switcher */}
-             <div className="flex bg-black p-1.5 rounded-xl border border-gray-800 shadow-inner">
-                <button
-                  onClick={() => { setMode(TestMode.HIL); addLog("Info: Mode changed to HIL"); }}
-                  className={`flex flex-col items-center justify-center px-4 py-1.5 rounded-lg text-xs font-medium transition-all ${
-                    mode === TestMode.HIL 
-                      ? 'bg-green-700 text-white shadow-lg' 
-                      : 'text-gray-500 hover:text-gray-300'
-                  }`}
-                >
-                  <span className="flex items-center gap-2"><Cpu size={14} /> TARGET: HIL</span>
-                </button>
-                <button
-                  onClick={() => { setMode(TestMode.SIL); addLog("Info: Mode changed to SIL"); }}
-                  className={`flex flex-col items-center justify-center px-4 py-1.5 rounded-lg text-xs font-medium transition-all ${
-                    mode === TestMode.SIL 
-                      ? 'bg-blue-700 text-white shadow-lg' 
-                      : 'text-gray-500 hover:text-gray-300'
-                  }`}
-                >
-                  <span className="flex items-center gap-2"><Laptop size={14} /> TARGET: SIL</span>
-                </button>
-             </div>
+             {/* SIL Access Style */}
+             <select
+               value={accessStyle}
+               onChange={(e) => { setAccessStyle(e.target.value as SysvarAccessStyle); addLog(`Info: SIL sysvar access style set to '${e.target.value}'.`); }}
+               className="bg-black text-gray-400 border border-gray-800 rounded-lg px-2 text-xs font-mono outline-none focus:border-blue-500"
+               title="How sysvar targets are written in SIL code"
+             >
+               <option value="at">@sysvar</option>
+               <option value="function">sysGet/SetVariable</option>
+               <option value="bare">bare sysvar::</option>
+             </select>
+
+             {/* Environment Profile Switcher */}
+             <ProfileSwitcher profiles={allProfiles} conversion={conversion} onChange={changeConversion} />
           </div>
         </header>
 
         {/* Code Editors Container */}
         <div className="flex-1 flex overflow-hidden">
+
+          {projectResult && (
+            <ProjectTree
+              project={projectResult}
+              activePath={activeFile}
+              onSelect={selectProjectFile}
+              onDownloadZip={handleDownloadZip}
+              onClose={handleCloseProject}
+            />
+          )}
           
           {/* Input Panel */}
           <div className="flex-1 flex flex-col border-r border-gray-800 min-w-0 group">
@@ -363,6 +1302,7 @@ const App: React.FC = () => {
               <span className="flex items-center gap-2 text-gray-400 group-focus-within:text-blue-400 transition-colors">
                 <FileText size={14} />
                 Source CAPL Code
+                {activeFile && <span className="normal-case font-mono text-gray-500">· {activeFile}</span>}
               </span>
               <div className="flex items-center gap-2">
                 <button 
@@ -373,7 +1313,15 @@ const App: React.FC = () => {
                   <Trash2 size={14} />
                 </button>
                 <div className="h-4 w-px bg-gray-700 mx-1"></div>
-                <label className="flex items-center gap-2 cursor-pointer bg-gray-700 hover:bg-gray-600 text-gray-200 px-2 py-1 rounded transition-colors" title="Upload .can, .cin, .txt">
+                <button
+                  onClick={() => folderInputRef.current?.click()}
+                  className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 px-2 py-1 rounded transition-colors"
+                  title="Load a project folder (.can + .cin includes)"
+                >
+                  <FolderOpen size={12} />
+                  <span className="text-[10px] normal-case">Folder</span>
+                </button>
+                <label className="flex items-center gap-2 cursor-pointer bg-gray-700 hover:bg-gray-600 text-gray-200 px-2 py-1 rounded transition-colors" title="Upload .can, .cin, .txt (several files load as a project)">
                   <Upload size={12} />
                   <span className="text-[10px] normal-case">Upload File</span>
                   <input 
@@ -381,15 +1329,17 @@ const App: React.FC = () => {
                     ref={fileInputRef} 
                     className="hidden" 
                     accept=".can,.cin,.txt,.cpp" 
+                    multiple
                     onChange={handleFileUpload}
                   />
                 </label>
               </div>
             </div>
             <textarea
+              ref={sourceEditorRef}
               className="flex-1 bg-[#1e1e1e] text-gray-300 p-4 font-mono text-sm resize-none focus:outline-none focus:bg-[#252525] transition-colors border-0 leading-6"
               value={inputCode}
-              onChange={(e) => setInputCode(e.target.value)}
+              onChange={(e) => handleInputChange(e.target.value)}
               spellCheck={false}
               placeholder="// Paste your CAPL code here or Upload a file..."
             />
@@ -399,27 +1349,84 @@ const App: React.FC = () => {
           <div className="flex-1 flex flex-col min-w-0 bg-[#1e1e1e] relative group">
             <div className="px-4 py-2 bg-gray-800 flex justify-between items-center text-xs font-semibold text-gray-500 uppercase tracking-wider border-b border-gray-700">
               <span className="flex items-center gap-2">
-                <div className={`w-2 h-2 rounded-full ${mode === TestMode.SIL ? 'bg-blue-500' : 'bg-green-500'} animate-pulse`}></div>
+                <div className={`w-2 h-2 rounded-full ${toProfile?.kind === 'sysvar' ? 'bg-blue-500' : 'bg-green-500'} animate-pulse`}></div>
                 Transformed Output
               </span>
               <div className="flex items-center gap-2">
                  {changeCount !== null && (
-                   <span className="text-blue-300 normal-case bg-blue-900/40 border border-blue-800 px-2 py-0.5 rounded flex items-center gap-1 mr-2">
+                   <button
+                     onClick={() => setIsReportOpen(prev => !prev)}
+                     className="text-blue-300 normal-case bg-blue-900/40 border border-blue-800 hover:bg-blue-900/70 px-2 py-0.5 rounded flex items-center gap-1 mr-2 transition-colors"
+                     title="Show Replacement Report"
+                   >
                      <ArrowRightLeft size={10} />
                      {changeCount} replacements
-                   </span>
+                     {issues.length > 0 && <span className="text-yellow-300">· {issues.length} issues</span>}
+                   </button>
                  )}
                  
+                 {outputView === 'diff' && replacements.length > 0 && (
+                   <div className="flex items-center gap-1 mr-1 normal-case text-gray-400">
+                     <button onClick={() => stepChange(-1)} className="p-0.5 hover:text-white transition-colors" title="Previous Change">
+                       <ChevronUp size={14} />
+                     </button>
+                     <span className="text-[10px] tabular-nums">
+                       {activeChange === null ? '–' : activeChange + 1}/{replacements.length}
+                     </span>
+                     <button onClick={() => stepChange(1)} className="p-0.5 hover:text-white transition-colors" title="Next Change">
+                       <ChevronDown size={14} />
+                     </button>
+                   </div>
+                 )}
+
+                 <button 
+                    onClick={() => setOutputView(prev => prev === 'diff' ? 'text' : 'diff')} 
+                    className={`flex items-center gap-1.5 px-2 py-1 rounded transition-colors text-white ${outputView === 'diff' ? 'bg-blue-700 hover:bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    title="Toggle Side-by-Side Diff"
+                 >
+                    <Columns2 size={12} />
+                    <span className="text-[10px] normal-case">Diff</span>
+                 </button>
+
+                 <button
+                    onClick={() => changeOutputStyle(isDual ? 'convert' : 'dual')}
+                    className={`flex items-center gap-1.5 px-2 py-1 rounded transition-colors text-white ${isDual ? 'bg-purple-700 hover:bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    title="Toggle Dual Output (keep both variants behind a switch sysvar)"
+                 >
+                    <GitFork size={12} />
+                    <span className="text-[10px] normal-case">Dual</span>
+                 </button>
+
+                 {isDual && (
+                   <input
+                     value={dualSwitch}
+                     onChange={(e) => setDualSwitch(e.target.value)}
+                     placeholder={defaultDualSwitch(conversion.to)}
+                     className={`w-32 bg-black border rounded px-1.5 py-0.5 text-[10px] normal-case text-gray-200 outline-none ${dualSwitch.trim() && !parseSysvarPath(dualSwitch.trim()) ? 'border-red-500' : 'border-gray-700 focus:border-purple-500'}`}
+                     title="Switch sysvar: non-zero selects the converted variant"
+                   />
+                 )}
+
                  <button 
                     onClick={handleSwap} 
-                    disabled={!outputCode}
+                    disabled={!outputCode || isDual}
                     className="flex items-center gap-1.5 bg-gray-700 hover:bg-blue-600 disabled:opacity-50 disabled:hover:bg-gray-700 text-white px-2 py-1 rounded transition-colors"
-                    title="Move Output to Source & Switch Mode"
+                    title="Move Output to Source & Reverse Direction"
                  >
                     <RefreshCw size={12} />
                     <span className="text-[10px] normal-case">Swap</span>
                  </button>
 
+                 <button 
+                    onClick={handleVerifyRoundTrip} 
+                    disabled={!inputCode}
+                    className="flex items-center gap-1.5 bg-gray-700 hover:bg-emerald-700 disabled:opacity-50 disabled:hover:bg-gray-700 text-white px-2 py-1 rounded transition-colors"
+                    title="Verify Round-Trip (transform and back must reproduce the source)"
+                 >
+                    <ShieldCheck size={12} />
+                    <span className="text-[10px] normal-case">Verify</span>
+                 </button>
+
                  <div className="h-4 w-px bg-gray-700 mx-1"></div>
 
                  <button 
@@ -441,12 +1448,30 @@ const App: React.FC = () => {
                  </button>
               </div>
             </div>
-            <textarea
-              className={`flex-1 bg-[#151515] p-4 font-mono text-sm resize-none focus:outline-none border-0 leading-6 ${mode === TestMode.SIL ? 'text-blue-100' : 'text-green-100'}`}
-              value={outputCode}
-              readOnly
-              spellCheck={false}
-              placeholder="// Transformed code will appear here..."
+            {outputView === 'diff' ? (
+              <DiffView
+                source={inputCode}
+                output={outputCode}
+                replacements={replacements}
+                activeIndex={activeChange}
+                onSelect={selectChange}
+              />
+            ) : (
+              <textarea
+                className={`flex-1 bg-[#151515] p-4 font-mono text-sm resize-none focus:outline-none border-0 leading-6 ${toProfile?.kind === 'sysvar' ? 'text-blue-100' : 'text-green-100'}`}
+                value={outputCode}
+                readOnly
+                spellCheck={false}
+                placeholder="// Transformed code will appear here..."
+              />
+            )}
+
+            <ReplacementReport
+              isOpen={isReportOpen && changeCount !== null}
+              onClose={() => setIsReportOpen(false)}
+              onExport={handleExportReport}
+              replacements={replacements}
+              issues={issues}
             />
             
             {/* AI Floating Button */}
@@ -454,6 +1479,7 @@ const App: React.FC = () => {
                <Button 
                  onClick={handleAiTransform} 
                  isLoading={isAiProcessing}
+                 title={aiProvider ? `Refactor with ${aiProvider.label}` : 'No AI provider configured - click to open the AI settings'}
                  variant="secondary"
                  className="shadow-2xl border border-purple-500/30 hover:border-purple-500/80 !bg-gray-900/80 backdrop-blur-md !text-purple-300 hover:!bg-gray-900 hover:!text-purple-200 transition-all transform hover:scale-105"
                  icon={<Sparkles size={16} />}
@@ -477,11 +1503,24 @@ const App: React.FC = () => {
         )}
       </div>
 
-      {/* Right Sidebar */}
+      {/* Right Sidebar (keyed so a pending AI suggestion queue does not follow into another workspace) */}
       <MappingEditor 
+        key={workspaceId ?? undefined}
         mappings={mappings} 
-        setMappings={setMappings} 
+        setMappings={(next, label, coalesce) => recordEdit(label, { mappings: next }, coalesce)} 
+        header={mappingHeader}
+        setHeader={setMappingHeader}
+        profiles={profiles}
+        conversion={conversion}
+        setProfiles={changeProfiles}
         currentCode={inputCode}
+        sysvars={sysvars}
+        setSysvars={setSysvars}
+        highlightedId={highlightedMappingId}
+        aiProvider={aiProvider}
+        onConfigureAi={() => setIsAiSettingsOpen(true)}
+        rejectedSignals={rejectedSignals}
+        onRejectSignal={rejectSignal}
       />
 
       {/* Terminal Overlay */}
@@ -492,6 +1531,19 @@ const App: React.FC = () => {
         logs={terminalLogs}
       />
 
+      <AiReviewModal
+        review={aiReview}
+        onAccept={acceptAiResult}
+        onReject={rejectAiResult}
+      />
+
+      <AiSettingsModal
+        isOpen={isAiSettingsOpen}
+        settings={aiSettings}
+        onSave={changeAiSettings}
+        onClose={() => setIsAiSettingsOpen(false)}
+      />
+
       {/* Readme Modal */}
       <ReadmeModal 
         isOpen={isReadmeOpen}
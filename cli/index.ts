@@ -0,0 +1,370 @@
+/**
+ * CAPL Signal Transformer - CI/CD command line tool.
+ *
+ * Built from the same modules as the web interface (utils/transformer.ts),
+ * so both always produce identical output. The web interface's Export CLI
+ * button bundles this file and embeds the current mapping table.
+ */
+import fs from "fs";
+import path from "path";
+import { Conversion, EnvironmentProfile, ProjectFile, SignalMapping, SysvarAccessStyle, TestMode } from "../types";
+import { transformProject } from "../utils/project";
+import { analyzeConversion, formatFindingsSummary } from "../utils/mappingAnalyzer";
+import { formatRoundTripResult, verifyRoundTrip } from "../utils/roundTrip";
+import { formatIssue } from "../utils/report";
+import { formatValidationErrors, parseMappingFile } from "../utils/mappingFile";
+import { createJUnitXml, findLeftoverSignals, formatLeftover, LeftoverCheckResult, leftoverKind } from "../utils/leftoverCheck";
+import { defaultDualSwitch } from "../utils/dualOutput";
+import { conversionForMode, findProfile, formatConversion, getProfiles, projectConversion } from "../utils/profiles";
+import { commonBase, expandInputs } from "./inputs";
+
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1,          // I/O error or unreadable mapping file
+  roundTrip: 2,      // --verify-roundtrip found lines that did not come back
+  mappingCheck: 3,   // mapping table has errors (see --skip-check)
+  usage: 4,          // bad arguments or no input files
+  check: 5,          // --check found references to the source environment left over
+} as const;
+
+interface EmbeddedConfig {
+  mode?: TestMode;            // exports from before environment profiles
+  conversion?: Conversion;
+  profiles?: EnvironmentProfile[];
+  accessStyle?: SysvarAccessStyle;
+  dualSwitch?: string;
+  mappings: SignalMapping[];
+}
+
+// Replaced by the web interface when exporting; stays a marker otherwise
+const EMBEDDED_CONFIG = "__CAPL_EMBEDDED_CONFIG__";
+
+interface CliOptions {
+  inputs: string[];
+  conversion: Conversion; // profile names or ids, resolved once the profiles are loaded
+  accessStyle?: SysvarAccessStyle;
+  dualSwitch?: string;    // set for dual output; empty for the default switch
+  mappingFile?: string;
+  outDir?: string;
+  output?: string;
+  inPlace: boolean;
+  dryRun: boolean;
+  report: 'text' | 'json';
+  skipCheck: boolean;
+  verifyRoundTrip: boolean;
+  check: boolean;
+  junitFile?: string;
+}
+
+const USAGE = `Usage: capl-transformer <inputs...> [options]
+
+Inputs are .can/.cin files, directories (searched recursively) or glob
+patterns such as "nodes/**/*.cin" (quote them so the shell does not expand).
+
+Options:
+  --mode=<SIL|HIL>         Convert between the built-in profiles (default: to SIL,
+                           or the exported setting)
+  --from=<profile>         Environment profile the inputs are written for
+  --to=<profile>           Environment profile to convert to; profiles other than
+                           HIL and SIL are defined in the mapping file
+  --mapping=<file.json>    Load mapping rules from a file instead of the embedded ones
+                           (validated; legacy bare-array files are migrated)
+  --access=<at|function|bare>  SIL sysvar access syntax
+  --dual[=<switch>]        Keep both variants behind a switch sysvar (default:
+                           Env::Is<target>); --no-dual turns off an embedded setting
+  --out-dir=<dir>          Write results here, keeping the directory layout
+  -o, --output=<file>      Output file (single input only)
+  --in-place               Overwrite the input files
+  --dry-run                Transform and report, but write nothing
+  --report=<text|json>     Report format on stdout (default: text)
+  --skip-check             Do not abort on mapping table errors
+  --verify-roundtrip       Fail if transforming back does not reproduce the input
+  --check                  Fail if converted code still references the source
+                           environment (e.g. real signals after converting to
+                           SIL); implies --dry-run unless an output option is given
+  --junit=<file.xml>       Write the --check result as a JUnit XML report
+  -h, --help               Show this help
+
+Exit codes:
+  0 success, 1 I/O error, 2 round-trip mismatch, 3 mapping table errors,
+  4 usage error / no input files, 5 leftover signals found by --check`;
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[], embedded: EmbeddedConfig | null): CliOptions => {
+  const options: CliOptions = {
+    inputs: [],
+    conversion: embedded?.conversion ?? conversionForMode(embedded?.mode ?? TestMode.SIL),
+    accessStyle: embedded?.accessStyle,
+    dualSwitch: embedded?.dualSwitch,
+    inPlace: false,
+    dryRun: false,
+    report: 'text',
+    skipCheck: false,
+    verifyRoundTrip: false,
+    check: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const value = () => {
+      const v = inlineValue ?? argv[++i];
+      if (v === undefined) throw new UsageError(`Missing value for ${flag}`);
+      return v;
+    };
+
+    switch (flag) {
+      case '--mode': {
+        const mode = value().toUpperCase();
+        if (mode !== TestMode.SIL && mode !== TestMode.HIL) throw new UsageError(`Unknown mode '${mode}'`);
+        options.conversion = conversionForMode(mode as TestMode);
+        break;
+      }
+      case '--from':
+        options.conversion = { ...options.conversion, from: value() };
+        break;
+      case '--to': {
+        // Converting to the current source profile reverses the direction
+        const to = value();
+        const { from } = options.conversion;
+        options.conversion = { from: from.toLowerCase() === to.toLowerCase() ? options.conversion.to : from, to };
+        break;
+      }
+      case '--access': {
+        const style = value();
+        if (!['at', 'function', 'bare'].includes(style)) throw new UsageError(`Unknown access style '${style}'`);
+        options.accessStyle = style as SysvarAccessStyle;
+        break;
+      }
+      case '--dual':
+        options.dualSwitch = inlineValue ?? '';
+        break;
+      case '--no-dual':
+        options.dualSwitch = undefined;
+        break;
+      case '--report': {
+        const format = value();
+        if (format !== 'text' && format !== 'json') throw new UsageError(`Unknown report format '${format}'`);
+        options.report = format;
+        break;
+      }
+      case '--mapping':
+      case '--mappings':
+        options.mappingFile = value();
+        break;
+      case '--out-dir':
+        options.outDir = value();
+        break;
+      case '-o':
+      case '--output':
+        options.output = value();
+        break;
+      case '--in-place':
+        options.inPlace = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--skip-check':
+        options.skipCheck = true;
+        break;
+      case '--verify-roundtrip':
+        options.verifyRoundTrip = true;
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      case '--junit':
+        options.junitFile = value();
+        break;
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option '${arg}'`);
+        options.inputs.push(arg);
+    }
+  }
+
+  if (options.inputs.length === 0) throw new UsageError('No inputs given');
+  const targets = [options.outDir, options.output, options.inPlace || undefined].filter(Boolean).length;
+  if (targets > 1) throw new UsageError('Use only one of --out-dir, --output and --in-place');
+  if (options.dualSwitch !== undefined && (options.check || options.verifyRoundTrip)) {
+    throw new UsageError('--dual cannot be combined with --check or --verify-roundtrip');
+  }
+  if (options.junitFile && !options.check) throw new UsageError('--junit requires --check');
+  if (targets === 0 && options.check) options.dryRun = true;
+  if (targets === 0 && !options.dryRun) throw new UsageError('Specify --out-dir, --output, --in-place or --dry-run');
+  return options;
+};
+
+const readEmbeddedConfig = (): EmbeddedConfig | null =>
+  EMBEDDED_CONFIG.startsWith('__CAPL_') ? null : JSON.parse(EMBEDDED_CONFIG);
+
+const loadMappings = (file: string, log: (message: string) => void): { mappings: SignalMapping[]; profiles: EnvironmentProfile[] } => {
+  const parsed = parseMappingFile(fs.readFileSync(file, 'utf8'), path.basename(file, '.json'));
+  if ('errors' in parsed) throw new Error(`${file} is not a valid mapping file:\n${formatValidationErrors(parsed.errors)}`);
+  if (parsed.migratedFrom) {
+    log(`Note: ${file} uses the legacy format (version ${parsed.migratedFrom}); export it again from the web interface to upgrade.`);
+  }
+  return { mappings: parsed.document.mappings, profiles: parsed.document.profiles ?? [] };
+};
+
+export const main = (argv: string[]): number => {
+  const embedded = readEmbeddedConfig();
+  if (argv.includes('--help') || argv.includes('-h')) {
+    console.log(USAGE);
+    return EXIT_CODES.ok;
+  }
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv, embedded);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    console.error(`Error: ${err.message}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  // Keep stdout clean for machine-readable reports
+  const log = options.report === 'json' ? console.error : console.log;
+
+  let mappings: SignalMapping[];
+  let extraProfiles: EnvironmentProfile[];
+  try {
+    ({ mappings, profiles: extraProfiles } = options.mappingFile
+      ? loadMappings(options.mappingFile, log)
+      : { mappings: embedded?.mappings ?? [], profiles: embedded?.profiles ?? [] });
+  } catch (err) {
+    console.error(`Error: Failed to load mappings: ${(err as Error).message}`);
+    return EXIT_CODES.error;
+  }
+  if (!options.mappingFile && !embedded) {
+    console.error(`Error: This build has no embedded mappings; pass --mapping=<file.json>.\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+  log(options.mappingFile ? `Loaded ${mappings.length} mappings from ${options.mappingFile}.` : `Using ${mappings.length} embedded mappings.`);
+
+  const profiles = getProfiles(extraProfiles);
+  const [from, to] = [options.conversion.from, options.conversion.to].map(name => findProfile(profiles, name));
+  if (!from || !to) {
+    const names = profiles.map(p => p.name).join(', ');
+    console.error(`Error: Unknown profile '${!from ? options.conversion.from : options.conversion.to}' (available: ${names}).\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+  const conversion = { from: from.id, to: to.id };
+  const engine = projectConversion(mappings, profiles, conversion);
+  if (engine.error) {
+    console.error(`Error: ${engine.error}.\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+  const sameKind = from.kind === to.kind;
+
+  const findings = analyzeConversion(mappings, extraProfiles, conversion);
+  if (findings.length > 0) log(formatFindingsSummary(findings));
+  if (findings.some(f => f.severity === 'error') && !options.skipCheck) {
+    console.error("Error: Mapping table has errors. Fix them or pass --skip-check.");
+    return EXIT_CODES.mappingCheck;
+  }
+
+  const { files: inputs, unmatched } = expandInputs(options.inputs);
+  unmatched.forEach(input => console.error(`Warning: '${input}' matched no files.`));
+  if (inputs.length === 0) {
+    console.error("Error: No input files.");
+    return EXIT_CODES.usage;
+  }
+  if (options.output && inputs.length > 1) {
+    console.error(`Error: --output takes a single input, got ${inputs.length} files. Use --out-dir.`);
+    return EXIT_CODES.usage;
+  }
+
+  const base = commonBase(inputs);
+  let files: ProjectFile[];
+  try {
+    files = inputs.map(f => ({
+      path: path.relative(base, f.absolutePath).split(path.sep).join('/'),
+      content: fs.readFileSync(f.absolutePath, 'utf8'),
+    }));
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    return EXIT_CODES.error;
+  }
+
+  log(`Transforming ${files.length} file(s) (${formatConversion(profiles, conversion)}, ${engine.mappings.length} rules)...`);
+  const dualSwitch = options.dualSwitch === undefined ? undefined : options.dualSwitch || defaultDualSwitch(to.id);
+  const transformOptions = { accessStyle: options.accessStyle, ...engine.options, ...(dualSwitch ? { dualSwitch } : {}) };
+  const project = transformProject(files, engine.mode, engine.mappings, transformOptions);
+  let roundTripFailed = false;
+  const checkResults: LeftoverCheckResult[] = [];
+
+  try {
+    project.files.forEach((file, index) => {
+      const { result } = file;
+      log(`  ${file.path}: ${result.changes} replacements${result.issues.length ? `, ${result.issues.length} issue(s)` : ''}`);
+      result.issues.forEach(issue => log(`  ${formatIssue(issue)}`));
+      file.missingIncludes.forEach(include => log(`    Warning: #include '${include}' is not among the inputs`));
+
+      if (options.verifyRoundTrip) {
+        const check = verifyRoundTrip(files[index].content, engine.mode, engine.mappings, transformOptions);
+        if (!check.ok) {
+          roundTripFailed = true;
+          console.error(`  ${file.path}: ${formatRoundTripResult(check)}`);
+        }
+      }
+
+      if (options.check) {
+        const leftovers = findLeftoverSignals(result.code, engine.mode, engine.mappings, sameKind);
+        checkResults.push({ path: file.path, leftovers });
+        if (leftovers.length > 0) {
+          console.error(`  ${file.path}: ${leftovers.length} ${leftoverKind(engine.mode, sameKind)} reference(s) left over:`);
+          leftovers.forEach(ref => console.error(`  ${formatLeftover(ref)}`));
+        }
+      }
+
+      if (options.dryRun) return;
+      const target = options.output
+        ?? (options.outDir ? path.join(options.outDir, file.path) : inputs[index].absolutePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, result.code);
+    });
+    if (options.junitFile) {
+      fs.mkdirSync(path.dirname(path.resolve(options.junitFile)), { recursive: true });
+      fs.writeFileSync(options.junitFile, createJUnitXml(checkResults, to.id, leftoverKind(engine.mode, sameKind)));
+      log(`JUnit report written to ${options.junitFile}.`);
+    }
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    return EXIT_CODES.error;
+  }
+
+  const leftoverCount = checkResults.reduce((sum, r) => sum + r.leftovers.length, 0);
+
+  if (options.report === 'json') {
+    console.log(JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      mode: engine.mode,
+      conversion,
+      ...(dualSwitch ? { dualSwitch } : {}),
+      dryRun: options.dryRun,
+      totalChanges: project.totalChanges,
+      files: project.files.map((f, i) => ({
+        path: f.path,
+        changes: f.result.changes,
+        replacements: f.result.replacements,
+        issues: f.result.issues,
+        missingIncludes: f.missingIncludes,
+        ...(options.check ? { leftovers: checkResults[i].leftovers } : {}),
+      })),
+    }, null, 2));
+  }
+
+  log(`${options.dryRun ? 'Dry run: nothing written.' : 'Success: Output written.'} ${project.totalChanges} replacements in total.`);
+  if (options.check) {
+    log(leftoverCount === 0
+      ? `Check passed: no ${leftoverKind(engine.mode, sameKind)} references left over.`
+      : `Check failed: ${leftoverCount} leftover reference(s) in ${checkResults.filter(r => r.leftovers.length > 0).length} file(s).`);
+  }
+  if (roundTripFailed) return EXIT_CODES.roundTrip;
+  return leftoverCount > 0 ? EXIT_CODES.check : EXIT_CODES.ok;
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+import { CAPL_FILE_EXTENSIONS } from "../utils/project";
+
+export interface InputFile {
+  absolutePath: string;
+  base: string; // directory the input was given relative to
+}
+
+const isGlob = (pattern: string) => /[*?[]/.test(pattern);
+
+const isCaplFile = (file: string) => CAPL_FILE_EXTENSIONS.some(ext => file.toLowerCase().endsWith(ext));
+
+/**
+ * Converts a glob to a regular expression over "/"-separated relative paths:
+ * `**` spans directories, `*` and `?` stay within one path segment.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') source += '[^/]*';
+    else if (c === '?') source += '[^/]';
+    else if (c === '[') {
+      const close = glob.indexOf(']', i);
+      if (close === -1) source += '\\[';
+      else {
+        source += `[${glob.slice(i + 1, close).replace(/^!/, '^')}]`;
+        i = close;
+      }
+    } else source += c.replace(/[.+^${}()|\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === 'node_modules' || entry.name.startsWith('.') ? [] : walk(full);
+    return entry.isFile() ? [full] : [];
+  });
+
+/**
+ * Expands CLI inputs: plain files, directories (searched recursively for
+ * .can/.cin) and glob patterns. Returns the files in a stable order plus
+ * the inputs that matched nothing.
+ */
+export const expandInputs = (inputs: string[], cwd = process.cwd()): { files: InputFile[]; unmatched: string[] } => {
+  const files = new Map<string, InputFile>();
+  const unmatched: string[] = [];
+  const add = (absolutePath: string, base: string) => {
+    if (!files.has(absolutePath)) files.set(absolutePath, { absolutePath, base });
+  };
+
+  inputs.forEach((input) => {
+    const normalized = input.replace(/\\/g, '/');
+    const before = files.size;
+
+    if (isGlob(normalized)) {
+      const segments = normalized.split('/');
+      const firstGlob = segments.findIndex(isGlob);
+      const base = path.resolve(cwd, segments.slice(0, firstGlob).join('/') || '.');
+      const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+      if (fs.existsSync(base) && fs.statSync(base).isDirectory()) {
+        walk(base)
+          .filter(file => matcher.test(path.relative(base, file).split(path.sep).join('/')))
+          .forEach(file => add(file, base));
+      }
+    } else {
+      const absolute = path.resolve(cwd, input);
+      if (fs.existsSync(absolute) && fs.statSync(absolute).isDirectory()) {
+        walk(absolute).filter(isCaplFile).forEach(file => add(file, absolute));
+      } else if (fs.existsSync(absolute)) {
+        add(absolute, path.dirname(absolute));
+      }
+    }
+
+    if (files.size === before) unmatched.push(input);
+  });
+
+  return { files: [...files.values()].sort((a, b) => a.absolutePath.localeCompare(b.absolutePath)), unmatched };
+};
+
+/**
+ * Deepest directory containing all input bases; output paths are made
+ * relative to it so --out-dir mirrors the source layout.
+ */
+export const commonBase = (files: InputFile[]): string => {
+  if (files.length === 0) return process.cwd();
+  return files
+    .map(f => f.base)
+    .reduce((common, base) => {
+      let dir = common;
+      while (dir !== path.dirname(dir) && path.relative(dir, base).startsWith('..')) dir = path.dirname(dir);
+      return dir;
+    });
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { AiEditKind, AiGuardResult, applyAiHunks, isExpectedEdit } from '../utils/aiGuard';
+import { X, ShieldCheck, ShieldAlert, Check } from 'lucide-react';
+import Button from './Button';
+
+interface AiReviewModalProps {
+  review: { original: string; aiCode: string; guard: AiGuardResult; provider: string } | null;
+  onAccept: (code: string, acceptedHunks: number) => void;
+  onReject: () => void;
+}
+
+const KIND_CLASSES: Record<AiEditKind, string> = {
+  mapped: 'bg-green-900/40 text-green-300',
+  call: 'bg-green-900/40 text-green-300',
+  signal: 'bg-red-900/40 text-red-300',
+  rename: 'bg-yellow-900/40 text-yellow-300',
+  comment: 'bg-yellow-900/40 text-yellow-300',
+  logic: 'bg-red-900/40 text-red-300',
+};
+
+// Diff lines without the trailing blank line of the hunk
+const diffLines = (text: string, prefix: string) => text.replace(/\n$/, '').split('\n').map(line => `${prefix} ${line}`);
+
+const AiReviewModal: React.FC<AiReviewModalProps> = ({ review, onAccept, onReject }) => {
+  const [selected, setSelected] = useState<boolean[]>([]);
+
+  // Pre-select the hunks that only do what the mapping table asks for
+  useEffect(() => {
+    setSelected(review ? review.guard.hunks.map(h => h.expected) : []);
+  }, [review]);
+
+  if (!review) return null;
+  const { guard } = review;
+  const edits = guard.hunks.flatMap(h => h.edits);
+  const selectedCount = selected.filter(Boolean).length;
+  const clean = guard.unexpected === 0;
+
+  const toggle = (index: number) => setSelected(selected.map((s, i) => (i === index ? !s : s)));
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e1e1e] border border-gray-700 rounded-xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center bg-[#252525] rounded-t-xl">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            {clean ? <ShieldCheck className="text-green-400" size={20} /> : <ShieldAlert className="text-yellow-400" size={20} />}
+            Review AI Refactor
+          </h2>
+          <button onClick={onReject} className="text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Summary */}
+        <div className={`px-4 py-3 text-sm border-b border-gray-700 ${clean ? 'text-green-300 bg-green-900/10' : 'text-yellow-300 bg-yellow-900/10'}`}>
+          {guard.hunks.length === 0
+            ? `${review.provider} returned the source without changes.`
+            : clean
+              ? `Only mapped signal references changed (${edits.length} replacements).`
+              : `${guard.unexpected} edit(s) go beyond the mapping table. Review the highlighted hunks before accepting.`}
+          {guard.unconverted.length > 0 && (
+            <div className="text-xs text-yellow-400 mt-1">
+              {guard.unconverted.length} mapped reference(s) were left unconverted: {guard.unconverted.slice(0, 5).map(u => `L${u.line} ${u.text}`).join(', ')}
+              {guard.unconverted.length > 5 ? ', ...' : ''}
+            </div>
+          )}
+        </div>
+
+        {/* Hunks */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {guard.hunks.map((hunk, i) => (
+            <div key={i} className={`border rounded-lg overflow-hidden ${hunk.expected ? 'border-gray-700' : 'border-yellow-700/60'}`}>
+              <label className="flex items-start gap-3 px-3 py-2 bg-[#252525] cursor-pointer">
+                <input type="checkbox" checked={!!selected[i]} onChange={() => toggle(i)} className="mt-1" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="text-xs text-gray-500">L{hunk.line} -&gt; L{hunk.aiLine}</div>
+                  {hunk.edits.map((edit, j) => (
+                    <div key={j} className="flex items-center gap-2 text-xs">
+                      <span className={`px-1.5 py-0.5 rounded font-mono uppercase text-[10px] ${KIND_CLASSES[edit.kind]}`}>{edit.kind}</span>
+                      <span className={isExpectedEdit(edit) ? 'text-gray-400' : 'text-gray-200'}>{edit.description}</span>
+                    </div>
+                  ))}
+                </div>
+              </label>
+              <pre className="text-xs font-mono px-3 py-2 overflow-x-auto bg-[#151515] leading-5">
+                {diffLines(hunk.original, '-').map((line, j) => <div key={`o${j}`} className="text-red-300/80">{line}</div>)}
+                {diffLines(hunk.replacement, '+').map((line, j) => <div key={`r${j}`} className="text-green-300/80">{line}</div>)}
+              </pre>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-700 bg-[#252525] rounded-b-xl flex justify-between items-center gap-3">
+          <span className="text-xs text-gray-500">{selectedCount} of {guard.hunks.length} hunk(s) selected</span>
+          <div className="flex gap-3">
+            <Button variant="ghost" onClick={onReject}>Reject</Button>
+            <Button
+              variant="secondary"
+              onClick={() => onAccept(applyAiHunks(review.original, guard.hunks, selected), selectedCount)}
+              disabled={selectedCount === 0 || selectedCount === guard.hunks.length}
+            >
+              Apply Selected
+            </Button>
+            <Button onClick={() => onAccept(review.aiCode, guard.hunks.length)} icon={<Check size={16} />}>
+              Accept All
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiReviewModal;
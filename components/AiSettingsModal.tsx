@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { AiProviderKind, AiSettings } from '../types';
+import { AI_PROVIDER_LABELS, aiSettingsProblem, createAiProvider, DEFAULT_MODELS, DEFAULT_OPENAI_ENDPOINT } from '../services/aiProviders';
+import { X, Bot, Plug } from 'lucide-react';
+import Button from './Button';
+
+interface AiSettingsModalProps {
+  isOpen: boolean;
+  settings: AiSettings;
+  onSave: (settings: AiSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: AiProviderKind[] = ['none', 'gemini', 'openai'];
+
+const AiSettingsModal: React.FC<AiSettingsModalProps> = ({ isOpen, settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AiSettings>(settings);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(settings);
+    setTestResult(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const problem = draft.provider === 'none' ? null : aiSettingsProblem(draft);
+
+  const selectProvider = (provider: AiProviderKind) => {
+    setTestResult(null);
+    setDraft({
+      ...draft,
+      provider,
+      // Keep a custom model, but not the other provider's default
+      model: !draft.model || Object.values(DEFAULT_MODELS).includes(draft.model) ? DEFAULT_MODELS[provider] : draft.model,
+      endpoint: provider === 'openai' && !draft.endpoint ? DEFAULT_OPENAI_ENDPOINT : draft.endpoint,
+    });
+  };
+
+  const update = (field: keyof AiSettings, value: string) => {
+    setTestResult(null);
+    setDraft({ ...draft, [field]: value });
+  };
+
+  const handleTest = async () => {
+    const provider = createAiProvider(draft);
+    if (!provider) return;
+    setIsTesting(true);
+    try {
+      const answer = await provider.complete('Reply with the single word OK.');
+      setTestResult({ ok: true, message: `Connected to ${provider.label}: "${answer.trim().slice(0, 60)}"` });
+    } catch (err) {
+      setTestResult({ ok: false, message: (err as Error).message });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-black border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200 outline-none focus:border-purple-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e1e1e] border border-gray-700 rounded-xl shadow-2xl w-full max-w-lg flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center bg-[#252525] rounded-t-xl">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Bot className="text-purple-400" size={20} />
+            AI Provider
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 text-sm text-gray-300">
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Provider</span>
+            <select value={draft.provider} onChange={(e) => selectProvider(e.target.value as AiProviderKind)} className={inputClass}>
+              {PROVIDERS.map(p => <option key={p} value={p}>{AI_PROVIDER_LABELS[p]}</option>)}
+            </select>
+          </label>
+
+          {draft.provider === 'openai' && (
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-400">Endpoint (base URL, /chat/completions is appended)</span>
+              <input value={draft.endpoint} onChange={(e) => update('endpoint', e.target.value)} placeholder={DEFAULT_OPENAI_ENDPOINT} className={inputClass} />
+            </label>
+          )}
+
+          {draft.provider !== 'none' && (
+            <>
+              <label className="block space-y-1">
+                <span className="text-xs text-gray-400">Model</span>
+                <input value={draft.model} onChange={(e) => update('model', e.target.value)} placeholder={DEFAULT_MODELS[draft.provider]} className={inputClass} />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs text-gray-400">API key{draft.provider === 'openai' ? ' (optional for local servers)' : ''}</span>
+                <input type="password" value={draft.apiKey} onChange={(e) => update('apiKey', e.target.value)} autoComplete="off" className={inputClass} />
+              </label>
+              <p className="text-xs text-gray-500">Settings are stored in this browser only. Source code and mappings are sent to the provider when you use an AI feature.</p>
+            </>
+          )}
+
+          {draft.provider === 'none' && (
+            <p className="text-xs text-gray-500">AI Scan & Suggest and Smart AI Refactor are disabled. All other features work offline.</p>
+          )}
+
+          {problem && <p className="text-xs text-yellow-400">{problem}.</p>}
+          {testResult && (
+            <p className={`text-xs break-words ${testResult.ok ? 'text-green-400' : 'text-red-400'}`}>{testResult.message}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-700 bg-[#252525] rounded-b-xl flex justify-end gap-3">
+          <Button
+            variant="secondary"
+            onClick={handleTest}
+            isLoading={isTesting}
+            disabled={draft.provider === 'none' || !!problem}
+            icon={<Plug size={16} />}
+          >
+            Test
+          </Button>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => onSave(draft)} disabled={!!problem}>Save</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsModal;
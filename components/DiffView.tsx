@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ReplacementEntry } from '../types';
+import { alignLines } from '../utils/sequenceDiff';
+
+interface DiffViewProps {
+  source: string;
+  output: string;
+  replacements: ReplacementEntry[];
+  activeIndex: number | null;
+  onSelect: (index: number) => void;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  index: number; // index into replacements
+}
+
+interface LineSegment {
+  text: string;
+  span?: Span;
+}
+
+// Splits a line into plain and highlighted segments. Spans nested in an
+// earlier one (arguments of a rewritten call) are covered by the outer span.
+const segmentLine = (text: string, lineStart: number, spans: Span[]): LineSegment[] => {
+  const lineEnd = lineStart + text.length;
+  const segments: LineSegment[] = [];
+  let cursor = lineStart;
+  spans
+    .filter(s => s.start < lineEnd && s.end > lineStart)
+    .forEach((span) => {
+      const from = Math.max(span.start, lineStart, cursor);
+      const to = Math.min(span.end, lineEnd);
+      if (from >= to) return;
+      if (from > cursor) segments.push({ text: text.slice(cursor - lineStart, from - lineStart) });
+      segments.push({ text: text.slice(from - lineStart, to - lineStart), span });
+      cursor = to;
+    });
+  if (cursor < lineEnd) segments.push({ text: text.slice(cursor - lineStart) });
+  return segments;
+};
+
+const splitLines = (code: string) => {
+  let offset = 0;
+  return code.split('\n').map((text) => {
+    const line = { text, start: offset };
+    offset += text.length + 1;
+    return line;
+  });
+};
+
+const DiffView: React.FC<DiffViewProps> = ({ source, output, replacements, activeIndex, onSelect }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const sourceLines = useMemo(() => splitLines(source), [source]);
+  const outputLines = useMemo(() => splitLines(output), [output]);
+  // Inserted lines (e.g. dual output handler copies) must not shift the rows after them
+  const rows = useMemo(() => alignLines(sourceLines.map(l => l.text), outputLines.map(l => l.text)), [sourceLines, outputLines]);
+  const sourceSpans = useMemo(() => replacements.map((r, index) => ({ start: r.start, end: r.end, index })), [replacements]);
+  const outputSpans = useMemo(() => replacements.map((r, index) => ({ start: r.outputStart, end: r.outputEnd, index })), [replacements]);
+
+  useEffect(() => {
+    if (activeIndex === null) return;
+    containerRef.current
+      ?.querySelector(`[data-change="${activeIndex}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeIndex]);
+
+  const renderSegments = (segments: LineSegment[], tone: 'source' | 'output') =>
+    segments.map((seg, i) => {
+      if (!seg.span) return <span key={i}>{seg.text}</span>;
+      const isActive = seg.span.index === activeIndex;
+      const colors = tone === 'source'
+        ? 'bg-red-900/50 text-red-200 decoration-red-400/60'
+        : 'bg-blue-900/60 text-blue-100 decoration-blue-400/60';
+      return (
+        <span
+          key={i}
+          data-change={seg.span.index}
+          onClick={() => onSelect(seg.span!.index)}
+          title={`Rule ${replacements[seg.span.index].mappingId}`}
+          className={`${colors} rounded-sm cursor-pointer underline underline-offset-2 ${isActive ? 'ring-1 ring-yellow-400' : ''}`}
+        >
+          {seg.text}
+        </span>
+      );
+    });
+
+  return (
+    <div ref={containerRef} className="flex-1 overflow-auto bg-[#151515] font-mono text-xs leading-6">
+      <table className="w-full border-collapse">
+        <tbody>
+          {rows.map(([srcIndex, outIndex], i) => {
+            const src = srcIndex === null ? undefined : sourceLines[srcIndex];
+            const out = outIndex === null ? undefined : outputLines[outIndex];
+            const changed = (src?.text ?? '') !== (out?.text ?? '');
+            return (
+              <tr key={i} className={changed ? 'bg-yellow-900/10' : ''}>
+                <td className="w-10 pr-2 text-right text-gray-600 select-none align-top">{srcIndex === null ? '' : srcIndex + 1}</td>
+                <td className="w-1/2 pr-3 text-gray-400 whitespace-pre align-top border-r border-gray-800">
+                  {src && renderSegments(segmentLine(src.text, src.start, sourceSpans), 'source')}
+                </td>
+                <td className="w-10 pr-2 text-right text-gray-600 select-none align-top">{outIndex === null ? '' : outIndex + 1}</td>
+                <td className="w-1/2 pl-3 text-gray-200 whitespace-pre align-top">
+                  {out && renderSegments(segmentLine(out.text, out.start, outputSpans), 'output')}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DiffView;
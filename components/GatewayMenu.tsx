@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GatewayDirection, GatewayOptions, GATEWAY_DIRECTION_LABELS } from '../utils/gatewayNode';
+import { Network, Download } from 'lucide-react';
+
+interface GatewayMenuProps {
+  onDownload: (options: Pick<GatewayOptions, 'direction' | 'cycleMs'>) => void;
+}
+
+const DIRECTIONS: GatewayDirection[] = ['toSysvar', 'toSignal', 'both'];
+
+const GatewayMenu: React.FC<GatewayMenuProps> = ({ onDownload }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [direction, setDirection] = useState<GatewayDirection>('both');
+  const [cyclic, setCyclic] = useState(false);
+  const [cycleMs, setCycleMs] = useState(100);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const download = () => {
+    onDownload({ direction, cycleMs: cyclic ? cycleMs : 0 });
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors flex items-center gap-2"
+        title="Generate a gateway node that bridges real signals and system variables"
+      >
+        <Network size={18} />
+        <span className="text-xs font-semibold hidden sm:inline">Gateway</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl z-50 text-xs p-3 space-y-3">
+          <div className="text-gray-300 font-semibold">Gateway Node (.can)</div>
+          <div className="space-y-1">
+            {DIRECTIONS.map(d => (
+              <label key={d} className="flex items-center gap-2 text-gray-400 hover:text-white cursor-pointer">
+                <input type="radio" name="gateway-direction" checked={direction === d} onChange={() => setDirection(d)} />
+                {GATEWAY_DIRECTION_LABELS[d]}
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-gray-400">
+            <input type="checkbox" checked={cyclic} onChange={(e) => setCyclic(e.target.checked)} />
+            Refresh every
+            <input
+              type="number"
+              min={1}
+              value={cycleMs}
+              disabled={!cyclic}
+              onChange={(e) => setCycleMs(Math.max(1, Math.round(Number(e.target.value)) || 1))}
+              className="w-16 bg-black border border-gray-700 rounded px-1.5 py-0.5 text-gray-200 outline-none focus:border-blue-500 disabled:opacity-40"
+            />
+            ms
+          </label>
+          <button
+            onClick={download}
+            className="w-full flex items-center justify-center gap-1.5 bg-blue-700 hover:bg-blue-600 text-white px-2 py-1.5 rounded transition-colors"
+          >
+            <Download size={12} />
+            Download gateway.can
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GatewayMenu;
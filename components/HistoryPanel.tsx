@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HistoryEntry } from '../utils/history';
+import { Undo2, Redo2, History as HistoryIcon } from 'lucide-react';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<unknown>[];
+  currentIndex: number;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, currentIndex, onJump, onUndo, onRedo }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+    const handleClick = (e: MouseEvent) => {
+      if (!panelRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const canUndo = currentIndex > 0;
+  const canRedo = currentIndex < entries.length - 1;
+  const buttonClass = 'p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div ref={panelRef} className="relative flex items-center">
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClass} title={canUndo ? `Undo: ${entries[currentIndex].label} (Ctrl+Z)` : 'Nothing to undo'}>
+        <Undo2 size={18} />
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className={buttonClass} title={canRedo ? `Redo: ${entries[currentIndex + 1].label} (Ctrl+Y)` : 'Nothing to redo'}>
+        <Redo2 size={18} />
+      </button>
+      <button onClick={() => setIsOpen(!isOpen)} className={`${buttonClass} ${isOpen ? 'bg-gray-800 text-white' : ''}`} title="Edit History">
+        <HistoryIcon size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl z-50 text-xs">
+          <div className="px-3 py-2 border-b border-gray-800 font-semibold text-gray-500 uppercase tracking-wider">
+            History <span className="normal-case font-normal text-gray-600">· click a step to go back to it</span>
+          </div>
+          <div className="max-h-80 overflow-y-auto py-1">
+            {entries.map((entry, i) => (
+              <button
+                key={i}
+                ref={i === currentIndex ? currentRef : undefined}
+                onClick={() => onJump(i)}
+                className={`w-full px-3 py-1.5 flex items-center gap-2 text-left transition-colors ${
+                  i === currentIndex ? 'bg-blue-900/40 text-white' : i > currentIndex ? 'text-gray-600 hover:bg-gray-800' : 'text-gray-300 hover:bg-gray-800'
+                }`}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="ml-auto text-[10px] text-gray-600 shrink-0 tabular-nums">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
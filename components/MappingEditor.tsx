@@ -1,21 +1,82 @@
-import React, { useState, useEffect } from 'react';
-import { SignalMapping } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Conversion, EnvironmentProfile, MappingFileHeader, MappingKind, MappingSuggestion, ProfileKind, SignalMapping, SysvarAccessStyle, SysvarDeclarations } from '../types';
 import { MAPPING_PRESETS } from '../constants';
 import Button from './Button';
-import { Plus, Trash2, Wand2, Download, Upload, Code, List, FileJson, CheckCircle, AlertCircle } from 'lucide-react';
-import { generateMappingsFromCode } from '../services/geminiService';
+import SuggestionQueue from './SuggestionQueue';
+import { Plus, Trash2, Wand2, Download, Upload, Code, List, FileJson, CheckCircle, AlertCircle, Database, FileCode2, FolderTree, X, ScanSearch, ChevronDown, ChevronRight } from 'lucide-react';
+import { generateMappingsFromCode } from '../services/aiService';
+import { AiProvider } from '../services/aiProviders';
+import { getNextMappingId, mergeMappings } from '../utils/mappings';
+import { isPatternRule } from '../utils/transformer';
+import { createMappingsFromDbc, DbcSignalStyle, parseDbc } from '../utils/dbcParser';
+import { createVsysvarXml, parseVsysvarXml, validateSysvarTargets } from '../utils/vsysvar';
+import { analyzeConversion, MappingFinding, MappingFindingCode } from '../utils/mappingAnalyzer';
+import { downloadTextFile } from '../utils/download';
+import { addHeaderReference, createMappingDocument, formatValidationErrors, parseMappingFile, validateMappings } from '../utils/mappingFile';
+import { createMappingForUnmapped, findUnmappedSignals, UnmappedSignal } from '../utils/signalScanner';
+import { createSuggestions, signalKey, suggestionToMapping } from '../utils/mappingSuggestions';
+import { createProfileId, findProfile, getColumn, getProfiles, PROFILE_KIND_LABELS, setColumn } from '../utils/profiles';
+
+const FINDING_LABELS: Record<MappingFindingCode, string> = {
+  'empty-field': 'empty',
+  'duplicate-source': 'duplicate',
+  'many-to-one': 'many→1',
+  'prefix-overlap': 'overlap',
+  'chained-target': 'chained',
+  'invalid-call': 'bad call',
+};
 
 interface MappingEditorProps {
   mappings: SignalMapping[];
-  setMappings: (m: SignalMapping[]) => void;
+  setMappings: (m: SignalMapping[], label: string, coalesce?: boolean) => void; // label names the undo step
+  header: MappingFileHeader;
+  setHeader: (h: MappingFileHeader) => void;
+  profiles: EnvironmentProfile[]; // additional profiles, one extra column each
+  conversion: Conversion;         // active conversion; the consistency check looks at its two columns
+  setProfiles: (p: EnvironmentProfile[], label: string, mappings?: SignalMapping[]) => void; // mappings: replace the table in the same step
   currentCode: string;
+  sysvars: SysvarDeclarations | null;
+  setSysvars: (d: SysvarDeclarations | null) => void;
+  highlightedId?: string | null; // rule to reveal, e.g. from a diff click
+  aiProvider: AiProvider | null;  // null: AI features are disabled
+  onConfigureAi: () => void;
+  rejectedSignals: string[];      // AI suggestions the user turned down, never suggested again
+  onRejectSignal: (realSignal: string) => void;
 }
 
-const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, currentCode }) => {
+const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, header, setHeader, profiles, setProfiles, conversion, currentCode, sysvars, setSysvars, highlightedId, aiProvider, onConfigureAi, rejectedSignals, onRejectSignal }) => {
   const [isAiLoading, setIsAiLoading] = useState(false);
+  const [suggestions, setSuggestions] = useState<MappingSuggestion[]>([]);
   const [viewMode, setViewMode] = useState<'list' | 'json'>('list');
   const [jsonText, setJsonText] = useState('');
   const [jsonError, setJsonError] = useState<string | null>(null);
+  const [dbcStyle, setDbcStyle] = useState<DbcSignalStyle>('message');
+  const [isUnmappedOpen, setIsUnmappedOpen] = useState(true);
+  const [newProfileName, setNewProfileName] = useState('');
+  const [newProfileKind, setNewProfileKind] = useState<ProfileKind>('signal');
+
+  const unmapped = useMemo(() => findUnmappedSignals(currentCode, mappings), [currentCode, mappings]);
+
+  const sysvarIssues = useMemo(() => {
+    const byId: Record<string, ReturnType<typeof validateSysvarTargets>[number]> = {};
+    if (sysvars) {
+      validateSysvarTargets(mappings, sysvars).forEach(issue => { byId[issue.mappingId] = issue; });
+    }
+    return byId;
+  }, [mappings, sysvars]);
+
+  const findingsById = useMemo(() => {
+    const byId: Record<string, MappingFinding[]> = {};
+    analyzeConversion(mappings, profiles, conversion).forEach(f => { (byId[f.mappingId] ??= []).push(f); });
+    return byId;
+  }, [mappings, profiles, conversion]);
+
+  // Reveal the highlighted rule in the list
+  useEffect(() => {
+    if (!highlightedId) return;
+    setViewMode('list');
+    document.getElementById(`mapping-rule-${highlightedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedId]);
 
   // Sync JSON text when mappings change (if not currently editing JSON)
   useEffect(() => {
@@ -25,65 +86,122 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
     }
   }, [mappings, viewMode]);
 
-  const getNextId = (list: SignalMapping[]) => {
-    const maxId = list.reduce((max, m) => {
-      const num = parseInt(m.id, 10);
-      return !isNaN(num) && num > max ? num : max;
-    }, 0);
-    return (maxId + 1).toString();
-  };
-
   const handleAdd = () => {
+    const id = getNextMappingId(mappings);
     setMappings([
       ...mappings,
-      { id: getNextId(mappings), realSignal: '', simSignal: '', description: '' }
-    ]);
+      { id, realSignal: '', simSignal: '', description: '' }
+    ], `Added rule ${id}`);
+  };
+
+  // Quick-fix: add pre-filled rules for unmapped references
+  const handleCreateFromUnmapped = (signals: UnmappedSignal[]) => {
+    const created: SignalMapping[] = [];
+    signals.forEach(s => created.push(createMappingForUnmapped(s, getNextMappingId([...mappings, ...created]))));
+    setMappings([...mappings, ...created], `Added ${created.length} rule(s) for unmapped signals`);
   };
 
   const handleRemove = (id: string) => {
-    setMappings(mappings.filter(m => m.id !== id));
+    setMappings(mappings.filter(m => m.id !== id), `Removed rule ${id}`);
   };
 
   const handleChange = (id: string, field: keyof SignalMapping, value: string) => {
-    setMappings(mappings.map(m => m.id === id ? { ...m, [field]: value } : m));
+    setMappings(mappings.map(m => m.id === id ? { ...m, [field]: value } : m), `Edited rule ${id}`, true);
+  };
+
+  const handleColumnChange = (id: string, profileId: string, value: string) => {
+    setMappings(mappings.map(m => (m.id === id ? setColumn(m, profileId, value) : m)), `Edited rule ${id}`, true);
+  };
+
+  const handleAddProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    if (findProfile(getProfiles(profiles), name)) {
+      alert(`Profile '${name}' already exists.`);
+      return;
+    }
+    setProfiles([...profiles, { id: createProfileId(getProfiles(profiles), name), name, kind: newProfileKind }], `Added profile ${name}`);
+    setNewProfileName('');
+  };
+
+  const handleRemoveProfile = (profile: EnvironmentProfile) => {
+    const used = mappings.filter(m => getColumn(m, profile.id)).length;
+    if (used > 0 && !window.confirm(`Remove profile '${profile.name}' and its values in ${used} rule(s)?`)) return;
+    setProfiles(profiles.filter(p => p.id !== profile.id), `Removed profile ${profile.name}`);
+  };
+
+  const handleAccessStyleChange = (id: string, value: SysvarAccessStyle | '') => {
+    setMappings(mappings.map(m => {
+      if (m.id !== id) return m;
+      const { accessStyle, ...rest } = m;
+      return value ? { ...rest, accessStyle: value } : rest;
+    }), `Changed access style of rule ${id}`);
+  };
+
+  const handleKindChange = (id: string, value: MappingKind) => {
+    setMappings(mappings.map(m => {
+      if (m.id !== id) return m;
+      const { kind, accessStyle, ...rest } = m;
+      return value === 'call' ? { ...rest, kind: value } : { ...rest, ...(accessStyle ? { accessStyle } : {}) };
+    }), `Made rule ${id} a ${value} rule`);
   };
 
   const handleJsonChange = (val: string) => {
     setJsonText(val);
+    let parsed: unknown;
     try {
-      const parsed = JSON.parse(val);
-      if (Array.isArray(parsed)) {
-        setMappings(parsed);
-        setJsonError(null);
-      } else {
-        setJsonError("Root must be an array");
-      }
+      parsed = JSON.parse(val);
     } catch (e) {
       setJsonError((e as Error).message);
+      return;
+    }
+    const errors = validateMappings(parsed, 'mappings', profiles);
+    if (errors.length > 0) {
+      setJsonError(`${errors[0].path}: ${errors[0].message}${errors.length > 1 ? ` (+${errors.length - 1} more)` : ''}`);
+      return;
     }
+    setMappings(parsed as SignalMapping[], 'Edited JSON', true);
+    setJsonError(null);
   };
 
   const handleAiSuggest = async () => {
+    if (!aiProvider) {
+      onConfigureAi();
+      return;
+    }
     setIsAiLoading(true);
-    const suggestions = await generateMappingsFromCode(currentCode);
-    if (suggestions.length > 0) {
-      // Calculate start ID for new items
-      let currentMaxId = mappings.reduce((max, m) => {
-        const num = parseInt(m.id, 10);
-        return !isNaN(num) && num > max ? num : max;
-      }, 0);
-
-      const newMappings = [...mappings];
-      suggestions.forEach(s => {
-        if (!newMappings.some(e => e.realSignal === s.realSignal)) {
-          currentMaxId++;
-          // Overwrite AI's random ID with incremental ID
-          newMappings.push({ ...s, id: currentMaxId.toString() });
-        }
-      });
-      setMappings(newMappings);
+    try {
+      const candidates = await generateMappingsFromCode(currentCode, aiProvider);
+      const queued = createSuggestions(candidates, currentCode, mappings, rejectedSignals);
+      setSuggestions(queued);
+      if (queued.length > 0) setViewMode('list');
+      if (queued.length === 0) {
+        alert(candidates.length > 0
+          ? `${aiProvider.label} only suggested signals that are already mapped or were rejected before.`
+          : `${aiProvider.label} found no signals to map.`);
+      }
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setIsAiLoading(false);
     }
-    setIsAiLoading(false);
+  };
+
+  const handleAcceptSuggestion = (suggestion: MappingSuggestion, simSignal: string) => {
+    // A rule may have been added by hand since the scan
+    const existing = mappings.find(m => m.kind !== 'call' && signalKey(m.realSignal) === signalKey(suggestion.realSignal));
+    if (existing) {
+      alert(`${suggestion.realSignal} is already mapped by rule ${existing.id}.`);
+      setSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+      return;
+    }
+    setMappings([...mappings, suggestionToMapping(suggestion, simSignal, getNextMappingId(mappings))], `Accepted AI suggestion ${suggestion.realSignal}`);
+    setSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+  };
+
+  const handleRejectSuggestion = (suggestion: MappingSuggestion) => {
+    onRejectSignal(suggestion.realSignal);
+    setSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -92,23 +210,42 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
 
     const reader = new FileReader();
     reader.onload = (event) => {
-      try {
-        const json = JSON.parse(event.target?.result as string);
-        if (Array.isArray(json)) {
-            setMappings(json);
-        } else {
-            alert("Invalid JSON format. Expected an array.");
-        }
-      } catch (err) {
-        alert("Failed to parse JSON file.");
+      const parsed = parseMappingFile(event.target?.result as string, file.name.replace(/\.json$/i, ''));
+      if ('errors' in parsed) {
+        alert(`'${file.name}' is not a valid mapping file:\n${formatValidationErrors(parsed.errors)}`);
+        return;
+      }
+      setProfiles(parsed.document.profiles ?? [], `Imported '${file.name}'`, parsed.document.mappings);
+      setHeader(parsed.document.header);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleDbcUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const db = parseDbc(event.target?.result as string);
+      const incoming = createMappingsFromDbc(db, dbcStyle);
+      if (incoming.length === 0) {
+        alert("No BO_/SG_ definitions found in DBC file.");
+        return;
       }
+      setMappings(mergeMappings(mappings, incoming).mappings, `Imported DBC '${file.name}'`);
+      setHeader(addHeaderReference(header, 'dbc', file.name));
+      if (db.warnings.length > 0) alert(db.warnings.join('\n'));
     };
     reader.readAsText(file);
     e.target.value = '';
   };
 
   const handleDownload = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(mappings, null, 2));
+    const mappingFile = createMappingDocument(header, mappings, profiles);
+    setHeader(mappingFile.header);
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(mappingFile, null, 2));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
     downloadAnchorNode.setAttribute("download", "capl_mapping.json");
@@ -117,6 +254,36 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
     downloadAnchorNode.remove();
   };
 
+  const handleVsysvarUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        setSysvars(parseVsysvarXml(event.target?.result as string, file.name));
+        setHeader(addHeaderReference(header, 'vsysvar', file.name));
+      } catch (err) {
+        alert(`Invalid .vsysvar file: ${(err as Error).message}`);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleVsysvarExport = () => {
+    const { xml, skipped } = createVsysvarXml(mappings);
+    // Call rules are neither exported nor reported as skipped
+    if (skipped.length === mappings.filter(m => m.kind !== 'call').length) {
+      alert("No sysvar:: targets in the mapping table.");
+      return;
+    }
+    downloadTextFile(xml, 'capl_mapping.vsysvar', 'application/xml');
+    if (skipped.length > 0) {
+      alert(`Skipped ${skipped.length} rule(s) without a sysvar target: ${skipped.map(m => m.id).join(', ')}`);
+    }
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-900 border-l border-gray-700 w-full md:w-96 shrink-0 transition-all shadow-xl z-20">
       {/* Header */}
@@ -152,7 +319,7 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
                     className="bg-gray-800 text-gray-300 border border-gray-700 rounded px-2 py-1 outline-none focus:border-blue-500"
                     onChange={(e) => {
                         if (MAPPING_PRESETS[e.target.value]) {
-                            setMappings(MAPPING_PRESETS[e.target.value]);
+                            setMappings(MAPPING_PRESETS[e.target.value], `Loaded preset ${e.target.value}`);
                         }
                     }}
                     defaultValue=""
@@ -163,7 +330,24 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
                     ))}
                 </select>
              </div>
-             <div className="flex gap-2">
+             <div className="flex gap-2 items-center">
+                <select
+                    className="bg-gray-800 text-gray-400 border border-gray-700 rounded px-1 py-0.5 outline-none focus:border-blue-500 font-mono text-[10px]"
+                    value={dbcStyle}
+                    onChange={(e) => setDbcStyle(e.target.value as DbcSignalStyle)}
+                    title="Real signal syntax for DBC import"
+                >
+                    <option value="message">Msg.Sig</option>
+                    <option value="dollar">$Sig</option>
+                </select>
+                <label className="cursor-pointer text-gray-400 hover:text-white transition-colors" title="Import DBC">
+                    <Database size={16} />
+                    <input type="file" className="hidden" accept=".dbc" onChange={handleDbcUpload} />
+                </label>
+                <label className="cursor-pointer text-gray-400 hover:text-white transition-colors" title="Import .vsysvar for validation">
+                    <FolderTree size={16} />
+                    <input type="file" className="hidden" accept=".vsysvar,.xml" onChange={handleVsysvarUpload} />
+                </label>
                 <label className="cursor-pointer text-gray-400 hover:text-white transition-colors" title="Import JSON">
                     <Upload size={16} />
                     <input type="file" className="hidden" accept=".json" onChange={handleFileUpload} />
@@ -171,8 +355,85 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
                 <button onClick={handleDownload} className="text-gray-400 hover:text-white transition-colors" title="Export JSON">
                     <Download size={16} />
                 </button>
+                <button onClick={handleVsysvarExport} className="text-gray-400 hover:text-white transition-colors" title="Export CANoe .vsysvar">
+                    <FileCode2 size={16} />
+                </button>
              </div>
         </div>
+
+        <div className="flex gap-2 text-[10px]">
+            <input
+                className="flex-1 min-w-0 bg-gray-800 text-gray-300 border border-gray-700 rounded px-2 py-1 outline-none focus:border-blue-500"
+                value={header.project}
+                onChange={(e) => setHeader({ ...header, project: e.target.value })}
+                placeholder="Project name"
+                title="Project name (saved in the mapping file header)"
+            />
+            <input
+                className="w-28 bg-gray-800 text-gray-300 border border-gray-700 rounded px-2 py-1 outline-none focus:border-blue-500"
+                value={header.author ?? ''}
+                onChange={(e) => setHeader({ ...header, author: e.target.value || undefined })}
+                placeholder="Author"
+                title="Author (saved in the mapping file header)"
+            />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1 text-[10px]">
+            <span className="text-gray-500 mr-1">Profiles:</span>
+            {getProfiles(profiles).map(p => (
+                <span
+                  key={p.id}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded border ${p.kind === 'sysvar' ? 'border-blue-800/60 text-blue-300' : 'border-green-800/60 text-green-300'}`}
+                  title={`${p.name}: ${PROFILE_KIND_LABELS[p.kind]}`}
+                >
+                    {p.name}
+                    {profiles.includes(p) && (
+                        <button onClick={() => handleRemoveProfile(p)} className="text-gray-500 hover:text-red-400" title="Remove profile">
+                            <X size={10} />
+                        </button>
+                    )}
+                </span>
+            ))}
+            <input
+                className="w-20 bg-gray-800 text-gray-300 border border-gray-700 rounded px-1.5 py-0.5 outline-none focus:border-blue-500"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAddProfile(); }}
+                placeholder="New profile"
+                title="Name of an additional environment, e.g. a test bench"
+            />
+            <select
+                className="bg-gray-800 text-gray-400 border border-gray-700 rounded px-1 py-0.5 outline-none focus:border-blue-500"
+                value={newProfileKind}
+                onChange={(e) => setNewProfileKind(e.target.value as ProfileKind)}
+                title="Whether the environment uses bus signals or system variables"
+            >
+                <option value="signal">signals</option>
+                <option value="sysvar">sysvars</option>
+            </select>
+            <button onClick={handleAddProfile} disabled={!newProfileName.trim()} className="text-gray-400 hover:text-white disabled:opacity-30" title="Add profile">
+                <Plus size={12} />
+            </button>
+        </div>
+
+        {sysvars && (
+            <div className="flex justify-between items-center text-[10px] text-gray-500 bg-gray-800/60 rounded px-2 py-1">
+                <span className="truncate" title={sysvars.source}>
+                    Validating against <span className="text-gray-300 font-mono">{sysvars.source}</span> ({sysvars.variables.length} vars)
+                    {Object.keys(sysvarIssues).length > 0 && (
+                        <span className="text-red-400 ml-1">· {Object.keys(sysvarIssues).length} undeclared</span>
+                    )}
+                </span>
+                <button onClick={() => setSysvars(null)} className="text-gray-500 hover:text-white" title="Remove .vsysvar">
+                    <X size={12} />
+                </button>
+            </div>
+        )}
+        {sysvars && (
+            <datalist id="declared-sysvars">
+                {sysvars.variables.map(v => <option key={v} value={`sysvar::${v}`} />)}
+            </datalist>
+        )}
       </div>
 
       {/* Content */}
@@ -182,7 +443,7 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
             <div className="h-full flex flex-col">
                 <div className={`text-xs mb-2 flex items-center gap-2 ${jsonError ? 'text-red-400' : 'text-green-400'}`}>
                     {jsonError ? <AlertCircle size={14} /> : <CheckCircle size={14} />}
-                    {jsonError ? "Invalid JSON" : "Valid Configuration"}
+                    <span className="truncate" title={jsonError ?? undefined}>{jsonError ? `Invalid: ${jsonError}` : "Valid Configuration"}</span>
                 </div>
                 <textarea 
                     className={`w-full h-full bg-[#111] font-mono text-xs p-3 rounded border resize-none focus:outline-none focus:ring-1 ${jsonError ? 'border-red-500 focus:ring-red-500 text-red-100' : 'border-gray-700 focus:ring-blue-500 text-blue-100'}`}
@@ -193,15 +454,97 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
             </div>
         ) : (
             <div className="space-y-3">
+                <SuggestionQueue
+                  suggestions={suggestions}
+                  provider={aiProvider?.label ?? 'AI'}
+                  onAccept={handleAcceptSuggestion}
+                  onReject={handleRejectSuggestion}
+                  onDismiss={() => setSuggestions([])}
+                />
+                {unmapped.length > 0 && (
+                <div className="rounded border border-amber-800/60 bg-amber-950/20 text-xs">
+                    <div className="flex justify-between items-center px-2 py-1.5">
+                        <button
+                          onClick={() => setIsUnmappedOpen(prev => !prev)}
+                          className="flex items-center gap-1.5 text-amber-300 font-semibold"
+                          title="Signal and sysvar references in the source that no rule covers"
+                        >
+                          {isUnmappedOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                          <ScanSearch size={12} />
+                          {unmapped.length} unmapped in source
+                        </button>
+                        <button
+                          onClick={() => handleCreateFromUnmapped(unmapped)}
+                          className="text-[10px] text-amber-300/80 hover:text-amber-200 underline"
+                          title="Create a rule for every unmapped reference"
+                        >
+                          add all
+                        </button>
+                    </div>
+                    {isUnmappedOpen && (
+                    <ul className="border-t border-amber-900/40 max-h-40 overflow-y-auto">
+                        {unmapped.map(s => (
+                        <li key={s.text} className="flex items-center gap-2 px-2 py-1 hover:bg-amber-900/10">
+                            <span className={`font-mono truncate ${s.kind === 'sysvar' ? 'text-blue-300' : 'text-green-300'}`} title={s.text}>{s.text}</span>
+                            <span className="text-[10px] text-gray-500 whitespace-nowrap" title={`Lines ${s.lines.join(', ')}`}>
+                              {s.count}× · L{s.lines.slice(0, 3).join(', ')}{s.lines.length > 3 ? '…' : ''}
+                            </span>
+                            <button
+                              onClick={() => handleCreateFromUnmapped([s])}
+                              className="ml-auto text-gray-400 hover:text-white"
+                              title="Create mapping"
+                            >
+                              <Plus size={12} />
+                            </button>
+                        </li>
+                        ))}
+                    </ul>
+                    )}
+                </div>
+                )}
                 {mappings.length === 0 && (
                 <div className="text-center text-gray-500 py-10 text-sm border-2 border-dashed border-gray-800 rounded-lg">
                     No active mappings.<br/>Add manual, load preset,<br/>or use AI Scan.
                 </div>
                 )}
                 {mappings.map((m) => (
-                <div key={m.id} className="bg-gray-800/50 p-3 rounded border border-gray-700 group relative hover:border-blue-500/30 transition-colors">
+                <div
+                  key={m.id}
+                  id={`mapping-rule-${m.id}`}
+                  className={`bg-gray-800/50 p-3 rounded border group relative hover:border-blue-500/30 transition-colors ${m.id === highlightedId ? 'border-yellow-400/70 ring-1 ring-yellow-400/40' : 'border-gray-700'}`}
+                >
                     <div className="flex justify-between items-center mb-2 border-b border-gray-700 pb-1">
-                      <span className="text-[10px] text-gray-500 font-mono tracking-tighter">ID: {m.id}</span>
+                      <span className="flex items-center gap-2">
+                        <span className="text-[10px] text-gray-500 font-mono tracking-tighter">ID: {m.id}</span>
+                        <select
+                          className="bg-transparent text-[10px] text-gray-500 outline-none cursor-pointer hover:text-gray-300"
+                          value={m.kind ?? 'signal'}
+                          onChange={(e) => handleKindChange(m.id, e.target.value as MappingKind)}
+                          title="Signal rules rewrite signal references, call rules rewrite function calls"
+                        >
+                          <option value="signal">signal</option>
+                          <option value="call">call</option>
+                        </select>
+                      </span>
+                      <div className="flex gap-1 mr-5">
+                        {(isPatternRule(m.realSignal) || isPatternRule(m.simSignal)) && (
+                          <span
+                            title="Pattern rule: {name} captures are copied between both sides"
+                            className="text-[9px] px-1.5 rounded font-semibold bg-purple-900/40 text-purple-300 border border-purple-800/60 cursor-help"
+                          >
+                            pattern
+                          </span>
+                        )}
+                        {(findingsById[m.id] ?? []).map((f, i) => (
+                          <span
+                            key={i}
+                            title={f.message}
+                            className={`text-[9px] px-1.5 rounded font-semibold cursor-help ${f.severity === 'error' ? 'bg-red-900/50 text-red-300 border border-red-800' : 'bg-yellow-900/40 text-yellow-300 border border-yellow-800/60'}`}
+                          >
+                            {FINDING_LABELS[f.code]}
+                          </span>
+                        ))}
+                      </div>
                     </div>
 
                     <div className="grid grid-cols-1 gap-2 mb-2">
@@ -212,21 +555,62 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
                           <input 
                           className="w-full bg-gray-900 text-green-400 text-xs p-2 rounded border border-gray-700 focus:border-green-500/50 outline-none font-mono placeholder-gray-700"
                           value={m.realSignal}
-                          placeholder="$Signal"
+                          placeholder={m.kind === 'call' ? 'output($msg)' : '$Signal'}
                           onChange={(e) => handleChange(m.id, 'realSignal', e.target.value)}
                           />
                       </div>
                       <div>
                           <div className="flex justify-between mb-1">
                               <label className="text-[10px] uppercase text-blue-500/70 font-bold tracking-wider">SIL (SysVar)</label>
+                              {m.kind !== 'call' && (
+                              <select
+                                className="bg-transparent text-[10px] text-gray-500 outline-none cursor-pointer hover:text-gray-300"
+                                value={m.accessStyle ?? ''}
+                                onChange={(e) => handleAccessStyleChange(m.id, e.target.value as SysvarAccessStyle | '')}
+                                title="Access syntax for this rule"
+                              >
+                                <option value="">project access</option>
+                                <option value="at">@sysvar</option>
+                                <option value="function">sysGet/Set</option>
+                                <option value="bare">bare</option>
+                              </select>
+                              )}
                           </div>
                           <input 
-                          className="w-full bg-gray-900 text-blue-400 text-xs p-2 rounded border border-gray-700 focus:border-blue-500/50 outline-none font-mono placeholder-gray-700"
+                          className={`w-full bg-gray-900 text-blue-400 text-xs p-2 rounded border outline-none font-mono placeholder-gray-700 ${sysvarIssues[m.id] ? 'border-red-500/70 focus:border-red-500' : 'border-gray-700 focus:border-blue-500/50'}`}
                           value={m.simSignal}
-                          placeholder="sysvar::Namespace::Var"
+                          placeholder={m.kind === 'call' ? 'SilBus_Inject($msg)' : 'sysvar::Namespace::Var'}
+                          list={sysvars ? 'declared-sysvars' : undefined}
                           onChange={(e) => handleChange(m.id, 'simSignal', e.target.value)}
                           />
+                          {sysvarIssues[m.id] && (
+                            <div className="mt-1 text-[10px] text-red-400 flex items-center gap-1 flex-wrap">
+                              <AlertCircle size={10} />
+                              {sysvarIssues[m.id].message}
+                              {sysvarIssues[m.id].suggestion && (
+                                <button
+                                  className="text-blue-300 hover:text-blue-200 underline font-mono"
+                                  onClick={() => handleChange(m.id, 'simSignal', sysvarIssues[m.id].suggestion!)}
+                                >
+                                  use {sysvarIssues[m.id].suggestion}
+                                </button>
+                              )}
+                            </div>
+                          )}
+                      </div>
+                      {profiles.map(p => (
+                      <div key={p.id}>
+                          <label className={`text-[10px] uppercase font-bold tracking-wider mb-1 block ${p.kind === 'sysvar' ? 'text-blue-500/70' : 'text-green-500/70'}`}>
+                              {p.name} ({p.kind === 'sysvar' ? 'SysVar' : 'Real'})
+                          </label>
+                          <input
+                          className={`w-full bg-gray-900 text-xs p-2 rounded border border-gray-700 outline-none font-mono placeholder-gray-700 ${p.kind === 'sysvar' ? 'text-blue-400 focus:border-blue-500/50' : 'text-green-400 focus:border-green-500/50'}`}
+                          value={getColumn(m, p.id)}
+                          placeholder={m.kind === 'call' ? 'Bench_Send($msg)' : p.kind === 'sysvar' ? 'sysvar::Namespace::Var' : '$Signal'}
+                          onChange={(e) => handleColumnChange(m.id, p.id, e.target.value)}
+                          />
                       </div>
+                      ))}
                     </div>
 
                     <div className="mt-2 pt-2 border-t border-gray-800/50">
@@ -265,9 +649,10 @@ const MappingEditor: React.FC<MappingEditorProps> = ({ mappings, setMappings, cu
           onClick={handleAiSuggest} 
           isLoading={isAiLoading}
           icon={<Wand2 size={16} />} 
-          className="w-full text-purple-400 hover:text-purple-300 hover:bg-purple-900/20 border border-purple-900/30"
+          className={`w-full border border-purple-900/30 ${aiProvider ? 'text-purple-400 hover:text-purple-300 hover:bg-purple-900/20' : 'text-gray-500'}`}
+          title={aiProvider ? `Suggest rules with ${aiProvider.label}` : 'No AI provider configured - click to open the AI settings'}
         >
-          AI Scan & Suggest
+          {aiProvider ? 'AI Scan & Suggest' : 'AI Scan & Suggest (not configured)'}
         </Button>
       </div>
     </div>
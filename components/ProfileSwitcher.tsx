@@ -0,0 +1,61 @@
+import React from 'react';
+import { Conversion, EnvironmentProfile } from '../types';
+import { ArrowRightLeft, Cpu, Laptop } from 'lucide-react';
+
+interface ProfileSwitcherProps {
+  profiles: EnvironmentProfile[];
+  conversion: Conversion;
+  onChange: (conversion: Conversion) => void;
+}
+
+const kindClass = (profile?: EnvironmentProfile) =>
+  profile?.kind === 'sysvar' ? 'bg-blue-700 text-white' : 'bg-green-700 text-white';
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, conversion, onChange }) => {
+  const from = profiles.find(p => p.id === conversion.from);
+  const to = profiles.find(p => p.id === conversion.to);
+
+  // Picking the other side's profile swaps the direction instead
+  const select = (side: 'from' | 'to', id: string) => {
+    const other = side === 'from' ? conversion.to : conversion.from;
+    if (id === other) onChange({ from: conversion.to, to: conversion.from });
+    else onChange({ ...conversion, [side]: id });
+  };
+
+  const selectClass = 'bg-transparent outline-none cursor-pointer font-medium [&>option]:bg-gray-900 [&>option]:text-gray-300';
+
+  return (
+    <div className="flex items-center gap-1 bg-black p-1.5 rounded-xl border border-gray-800 shadow-inner text-xs">
+      <span className="text-gray-500 px-1">FROM</span>
+      <select
+        value={conversion.from}
+        onChange={(e) => select('from', e.target.value)}
+        className={`${selectClass} px-2 py-1.5 rounded-lg text-gray-300 hover:text-white`}
+        title="Environment the source code is written for"
+      >
+        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <button
+        onClick={() => onChange({ from: conversion.to, to: conversion.from })}
+        className="p-1.5 text-gray-500 hover:text-white rounded-lg transition-colors"
+        title="Reverse direction"
+      >
+        <ArrowRightLeft size={14} />
+      </button>
+      <span className={`flex items-center gap-2 pl-3 rounded-lg shadow-lg ${kindClass(to)}`}>
+        {to?.kind === 'sysvar' ? <Laptop size={14} /> : <Cpu size={14} />}
+        TARGET:
+        <select
+          value={conversion.to}
+          onChange={(e) => select('to', e.target.value)}
+          className={`${selectClass} pr-2 py-1.5`}
+          title={`Environment to convert to${from ? ` from ${from.name}` : ''}`}
+        >
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </span>
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { ProjectResult } from '../types';
+import { buildIncludeTree, ProjectTreeNode } from '../utils/project';
+import { FolderTree, FileCode2, FileWarning, Archive, X } from 'lucide-react';
+
+interface ProjectTreeProps {
+  project: ProjectResult;
+  activePath: string | null;
+  onSelect: (path: string) => void;
+  onDownloadZip: () => void;
+  onClose: () => void;
+}
+
+const ProjectTree: React.FC<ProjectTreeProps> = ({ project, activePath, onSelect, onDownloadZip, onClose }) => {
+  const tree = useMemo(() => buildIncludeTree(project), [project]);
+  const resultsByPath = useMemo(() => new Map(project.files.map(f => [f.path, f.result])), [project]);
+
+  const renderNode = (node: ProjectTreeNode, depth: number, key: string): React.ReactNode => {
+    const result = resultsByPath.get(node.path);
+    const name = node.path.split('/').pop();
+    const indent = { paddingLeft: `${depth * 12 + 8}px` };
+
+    if (node.missing) {
+      return (
+        <div key={key} style={indent} className="py-1 pr-2 flex items-center gap-1.5 text-red-400/80" title={`Include not found in project: ${node.path}`}>
+          <FileWarning size={12} className="shrink-0" />
+          <span className="truncate">{name}</span>
+          <span className="ml-auto text-[9px] uppercase">missing</span>
+        </div>
+      );
+    }
+
+    return (
+      <React.Fragment key={key}>
+        <button
+          style={indent}
+          onClick={() => onSelect(node.path)}
+          title={node.path}
+          className={`w-full py-1 pr-2 flex items-center gap-1.5 text-left transition-colors ${node.path === activePath ? 'bg-blue-900/40 text-white' : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'} ${node.repeated ? 'opacity-50' : ''}`}
+        >
+          <FileCode2 size={12} className="shrink-0" />
+          <span className="truncate">{name}</span>
+          {result && result.issues.length > 0 && (
+            <span className="text-[9px] text-yellow-300" title={`${result.issues.length} issue(s)`}>!</span>
+          )}
+          <span className={`ml-auto text-[10px] tabular-nums ${result && result.changes > 0 ? 'text-blue-300' : 'text-gray-600'}`}>
+            {result?.changes ?? 0}
+          </span>
+        </button>
+        {!node.repeated && node.children.map((child, i) => renderNode(child, depth + 1, `${key}/${i}`))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="w-56 shrink-0 border-r border-gray-800 bg-[#161616] flex flex-col text-xs font-mono">
+      <div className="px-3 py-2 bg-gray-800 flex justify-between items-center font-semibold text-gray-500 uppercase tracking-wider border-b border-gray-700 font-sans">
+        <span className="flex items-center gap-2 text-gray-400">
+          <FolderTree size={14} />
+          Project
+        </span>
+        <div className="flex items-center gap-2">
+          <button onClick={onDownloadZip} className="text-gray-400 hover:text-white transition-colors" title="Download converted project (.zip)">
+            <Archive size={14} />
+          </button>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" title="Close Project">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto py-1">
+        {tree.map((node, i) => renderNode(node, 0, String(i)))}
+      </div>
+      <div className="px-3 py-1.5 border-t border-gray-800 text-[10px] text-gray-500">
+        {project.files.length} files · {project.totalChanges} replacements
+      </div>
+    </div>
+  );
+};
+
+export default ProjectTree;
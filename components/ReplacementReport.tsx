@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { ReplacementEntry, TransformationIssue } from '../types';
+import { X, Download, ListChecks, AlertTriangle } from 'lucide-react';
+
+interface ReplacementReportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: () => void;
+  replacements: ReplacementEntry[];
+  issues: TransformationIssue[];
+}
+
+const ReplacementReport: React.FC<ReplacementReportProps> = ({ isOpen, onClose, onExport, replacements, issues }) => {
+  // Concrete signals matched by each pattern rule
+  const patternMatches = useMemo(() => {
+    const byRule: Record<string, string[]> = {};
+    replacements.filter(r => r.captures).forEach((r) => {
+      const list = (byRule[r.mappingId] ??= []);
+      if (!list.includes(r.source)) list.push(r.source);
+    });
+    return Object.entries(byRule);
+  }, [replacements]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="h-56 shrink-0 border-t border-gray-700 bg-[#121212] flex flex-col text-xs">
+      <div className="px-4 py-2 bg-gray-800 flex justify-between items-center font-semibold text-gray-400 uppercase tracking-wider border-b border-gray-700">
+        <span className="flex items-center gap-2">
+          <ListChecks size={14} />
+          Replacement Report
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onExport}
+            disabled={replacements.length === 0}
+            className="flex items-center gap-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors normal-case"
+            title="Export report as JSON"
+          >
+            <Download size={12} /> JSON
+          </button>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" title="Close Report">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto font-mono">
+        {issues.length > 0 && (
+          <div className="px-3 py-2 border-b border-gray-800 space-y-1">
+            {issues.map((issue, index) => (
+              <div key={index} className="text-yellow-300 flex items-start gap-2">
+                <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                <span><span className="text-gray-500">{issue.line}:{issue.column}</span> {issue.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {patternMatches.length > 0 && (
+          <div className="px-3 py-2 border-b border-gray-800 space-y-1">
+            {patternMatches.map(([ruleId, signals]) => (
+              <div key={ruleId} className="text-gray-400">
+                <span className="text-purple-300">Pattern rule {ruleId}</span> matched{' '}
+                <span className="text-green-400">{signals.join(', ')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {replacements.length === 0 ? (
+          <div className="text-center text-gray-600 py-6">No replacements.</div>
+        ) : (
+          <table className="w-full text-left">
+            <thead className="text-[10px] uppercase text-gray-500 sticky top-0 bg-[#121212]">
+              <tr>
+                <th className="px-3 py-1 font-semibold">Pos</th>
+                <th className="px-3 py-1 font-semibold">Rule</th>
+                <th className="px-3 py-1 font-semibold">Access</th>
+                <th className="px-3 py-1 font-semibold">Source → Target</th>
+                <th className="px-3 py-1 font-semibold">Handler</th>
+              </tr>
+            </thead>
+            <tbody>
+              {replacements.map((r, index) => (
+                <tr key={index} className="border-t border-gray-800/60 hover:bg-gray-800/40">
+                  <td className="px-3 py-1 text-gray-500 whitespace-nowrap">{r.line}:{r.column}</td>
+                  <td className="px-3 py-1 text-gray-500">{r.mappingId}</td>
+                  <td className={`px-3 py-1 ${r.access === 'write' ? 'text-orange-300' : 'text-gray-500'}`}>{r.access}</td>
+                  <td className="px-3 py-1">
+                    <span className="text-green-400">{r.source}</span>
+                    <span className="text-gray-600"> → </span>
+                    <span className="text-blue-400">{r.target}</span>
+                  </td>
+                  <td className="px-3 py-1 text-gray-400 whitespace-nowrap">{r.handler ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplacementReport;
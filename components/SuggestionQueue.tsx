@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { MappingSuggestion } from '../types';
+import { parseSysvarPath } from '../utils/vsysvar';
+import { Check, X, Wand2 } from 'lucide-react';
+
+interface SuggestionQueueProps {
+  suggestions: MappingSuggestion[];
+  provider: string;
+  onAccept: (suggestion: MappingSuggestion, simSignal: string) => void;
+  onReject: (suggestion: MappingSuggestion) => void;
+  onDismiss: () => void; // drop the queue without rejecting anything
+}
+
+const confidenceClass = (confidence: number) =>
+  confidence >= 0.75 ? 'bg-green-900/40 text-green-300'
+    : confidence >= 0.4 ? 'bg-yellow-900/40 text-yellow-300'
+      : 'bg-red-900/40 text-red-300';
+
+const SuggestionQueue: React.FC<SuggestionQueueProps> = ({ suggestions, provider, onAccept, onReject, onDismiss }) => {
+  // Edited sysvar names, by suggestion id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  if (suggestions.length === 0) return null;
+
+  const simFor = (s: MappingSuggestion) => drafts[s.id] ?? s.simSignal;
+  const edit = (id: string, value: string) => setDrafts(prev => ({ ...prev, [id]: value }));
+
+  return (
+    <div className="rounded border border-purple-800/60 bg-purple-950/20 text-xs">
+      <div className="flex justify-between items-center px-2 py-1.5">
+        <span className="flex items-center gap-1.5 text-purple-300 font-semibold" title={`Suggested by ${provider}`}>
+          <Wand2 size={12} />
+          {suggestions.length} AI suggestion(s) to review
+        </span>
+        <button
+          onClick={onDismiss}
+          className="text-[10px] text-purple-300/80 hover:text-purple-200 underline"
+          title="Close the queue; dismissed signals can be suggested again"
+        >
+          dismiss
+        </button>
+      </div>
+      <ul className="border-t border-purple-900/40 max-h-80 overflow-y-auto divide-y divide-purple-900/30">
+        {suggestions.map(s => {
+          const sim = simFor(s);
+          const valid = !!parseSysvarPath(sim);
+          return (
+            <li key={s.id} className="px-2 py-2 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-green-300 truncate" title={s.realSignal}>{s.realSignal}</span>
+                {s.confidence !== undefined ? (
+                  <span
+                    className={`px-1.5 py-0.5 rounded font-mono text-[10px] ${confidenceClass(s.confidence)}`}
+                    title={s.occurrences === 0 ? 'Not found in the source; confidence lowered' : 'Confidence reported by the model'}
+                  >
+                    {Math.round(s.confidence * 100)}%
+                  </span>
+                ) : (
+                  <span className="px-1.5 py-0.5 rounded font-mono text-[10px] bg-gray-800 text-gray-400" title="The model reported no confidence">
+                    no score
+                  </span>
+                )}
+                <button onClick={() => onAccept(s, sim)} disabled={!valid} className="ml-auto text-green-400 hover:text-green-300 disabled:text-gray-600" title="Accept as a mapping rule">
+                  <Check size={14} />
+                </button>
+                <button onClick={() => onReject(s)} className="text-gray-400 hover:text-red-400" title="Reject; this signal will not be suggested again in this workspace">
+                  <X size={14} />
+                </button>
+              </div>
+              <input
+                value={sim}
+                onChange={(e) => edit(s.id, e.target.value)}
+                className={`w-full bg-black border rounded px-2 py-1 font-mono text-blue-300 outline-none ${valid ? 'border-gray-700 focus:border-purple-500' : 'border-red-700'}`}
+                spellCheck={false}
+              />
+              {s.alternatives.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {[s.simSignal, ...s.alternatives].map(alt => (
+                    <button
+                      key={alt}
+                      onClick={() => edit(s.id, alt)}
+                      className={`px-1.5 py-0.5 rounded border font-mono text-[10px] ${alt === sim ? 'border-purple-500 text-purple-200' : 'border-gray-700 text-gray-400 hover:text-gray-200'}`}
+                      title="Use this name"
+                    >
+                      {alt}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {s.description && <div className="text-gray-400">{s.description}</div>}
+              {s.evidence.length > 0 ? (
+                <div className="font-mono text-[10px] text-gray-500 space-y-0.5">
+                  {s.evidence.map(e => (
+                    <div key={e.line} className="truncate" title={e.text}>L{e.line}: {e.text}</div>
+                  ))}
+                  {s.occurrences > s.evidence.length && <div>… {s.occurrences} references in total</div>}
+                </div>
+              ) : (
+                <div className="text-[10px] text-red-400/80">Not referenced in the current source</div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SuggestionQueue;
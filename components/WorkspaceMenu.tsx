@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WorkspaceInfo } from '../types';
+import { Layers, ChevronDown, Check, Plus, Copy, Pencil, Trash2, Download, Upload } from 'lucide-react';
+
+interface WorkspaceMenuProps {
+  workspaces: WorkspaceInfo[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onNew: (name: string) => void;
+  onDuplicate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: () => void;
+}
+
+const formatUpdated = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({ workspaces, activeId, onOpen, onNew, onDuplicate, onRename, onDelete, onExport, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const active = workspaces.find(w => w.id === activeId);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const ask = (message: string, fallback: string, action: (name: string) => void) => {
+    const name = window.prompt(message, fallback)?.trim();
+    if (name) action(name);
+    setIsOpen(false);
+  };
+
+  const actionClass = 'flex items-center gap-1.5 px-2 py-1 rounded text-gray-400 hover:text-white hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-2 py-1 rounded-lg text-xs text-gray-400 hover:text-white hover:bg-gray-800 transition-colors max-w-[14rem]"
+        title="Switch workspace"
+      >
+        <Layers size={14} className="shrink-0" />
+        <span className="truncate font-medium">{active?.name ?? 'No workspace'}</span>
+        <ChevronDown size={12} className="shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-72 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl z-50 text-xs">
+          <div className="max-h-64 overflow-y-auto py-1">
+            {workspaces.length === 0 && <div className="px-3 py-2 text-gray-500">Workspace storage is not available.</div>}
+            {workspaces.map(w => (
+              <div key={w.id} className={`group flex items-center gap-2 px-3 py-1.5 ${w.id === activeId ? 'bg-blue-900/30' : 'hover:bg-gray-800'}`}>
+                <button
+                  onClick={() => { onOpen(w.id); setIsOpen(false); }}
+                  className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                >
+                  {w.id === activeId ? <Check size={12} className="text-blue-400 shrink-0" /> : <span className="w-3 shrink-0" />}
+                  <span className={`truncate ${w.id === activeId ? 'text-white' : 'text-gray-300'}`}>{w.name}</span>
+                  <span className="ml-auto text-[10px] text-gray-600 shrink-0">{formatUpdated(w.updatedAt)}</span>
+                </button>
+                {w.id !== activeId && (
+                  <button
+                    onClick={() => { if (window.confirm(`Delete workspace '${w.name}'?`)) onDelete(w.id); }}
+                    className="text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete workspace"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="border-t border-gray-800 p-1 grid grid-cols-3 gap-0.5">
+            <button className={actionClass} onClick={() => ask('Name of the new workspace:', 'New workspace', onNew)}>
+              <Plus size={12} /> New
+            </button>
+            <button className={actionClass} disabled={!active} onClick={() => ask('Name of the copy:', `${active?.name} (copy)`, onDuplicate)}>
+              <Copy size={12} /> Duplicate
+            </button>
+            <button className={actionClass} disabled={!active} onClick={() => ask('Rename workspace:', active?.name ?? '', onRename)}>
+              <Pencil size={12} /> Rename
+            </button>
+            <button className={actionClass} disabled={!active} onClick={() => { onExport(); setIsOpen(false); }}>
+              <Download size={12} /> Export
+            </button>
+            <button className={actionClass} onClick={() => { onImport(); setIsOpen(false); }}>
+              <Upload size={12} /> Import
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceMenu;
@@ -44,9 +44,10 @@ export const DEFAULT_MAPPINGS: SignalMapping[] = [
   },
   {
     id: '3',
-    realSignal: 'output(msgEngine)',
-    simSignal: 'sysvar::Bus::InjectFrame(msgEngine)',
-    description: 'Output function replacement'
+    kind: 'call',
+    realSignal: 'output($msg)',
+    simSignal: 'SilBus_Inject($msg)',
+    description: 'Route frame output into the simulated bus'
   }
 ];
 
@@ -56,10 +57,10 @@ export const MAPPING_PRESETS: Record<string, SignalMapping[]> = {
     { id: 'b1', realSignal: '$DoorStatus', simSignal: 'sysvar::Body::DoorState', description: 'Door Open/Close' },
     { id: 'b2', realSignal: 'Lights.Headlight', simSignal: 'sysvar::Lights::HeadlightOn', description: 'Headlights' },
     { id: 'b3', realSignal: '$WindowPos', simSignal: 'sysvar::Body::WindowPosition', description: 'Window Position' },
-    { id: 'b4', realSignal: 'output(msgBody)', simSignal: 'sysvar::Bus::InjectFrame(msgBody)', description: 'Output replacement' }
+    { id: 'b4', kind: 'call', realSignal: 'output($msg)', simSignal: 'SilBus_Inject($msg)', description: 'Route frame output into the simulated bus' }
   ],
   'ADAS Sensors': [
-    { id: 'a1', realSignal: '$RadarObj1_Dist', simSignal: 'sysvar::Sensors::Radar::Obj1::Dist', description: 'Radar Distance' },
+    { id: 'a1', realSignal: '$RadarObj{n}_Dist', simSignal: 'sysvar::Sensors::Radar::Obj{n}::Dist', description: 'Radar Distance (any object index)' },
     { id: 'a2', realSignal: 'CameraMsg.LaneDev', simSignal: 'sysvar::Sensors::Camera::LaneDeviation', description: 'Lane Deviation' },
     { id: 'a3', realSignal: '$AEB_Active', simSignal: 'sysvar::ADAS::AEB_Status', description: 'AEB Trigger' }
   ]
@@ -67,124 +68,6 @@ export const MAPPING_PRESETS: Record<string, SignalMapping[]> = {
 
 export const INITIAL_MODE = TestMode.SIL; // Default to transforming TO Simulation
 
-export const NODE_CLI_TEMPLATE = `/**
- * CAPL Signal Transformer - CI/CD CLI Tool
- * Auto-generated from Web Interface
- * 
- * Usage: node capl-transformer.js <input_path> <output_path> [options]
- * 
- * Options:
- *   --mode=HIL             Convert System Variables -> Real Signals
- *   --mode=SIL             Convert Real Signals -> System Variables (Default)
- *   --mapping=<file.json>  Load external JSON mapping rules (overrides embedded)
- * 
- * Example:
- *   node capl-transformer.js input.can output.can --mode=SIL --mapping=rules.json
- */
-
-const fs = require('fs');
-
-// --- EMBEDDED CONFIGURATION (DEFAULT) ---
-const EMBEDDED_MAPPINGS = __MAPPINGS_JSON__;
-
-// --- TRANSFORMER LOGIC ---
-const TestMode = { HIL: 'HIL', SIL: 'SIL' };
-
-function performTransformation(code, mode, mappings) {
-  let transformedCode = code;
-  let changesCount = 0;
-
-  // Sort mappings by length to avoid partial matches
-  const sortedMappings = [...mappings].sort((a, b) => {
-    const lenA = mode === TestMode.SIL ? (a.realSignal || "").length : (a.simSignal || "").length;
-    const lenB = mode === TestMode.SIL ? (b.realSignal || "").length : (b.simSignal || "").length;
-    return lenB - lenA;
-  });
-
-  sortedMappings.forEach((map) => {
-    const source = mode === TestMode.SIL ? map.realSignal : map.simSignal;
-    const target = mode === TestMode.SIL ? map.simSignal : map.realSignal;
-
-    if (!source || !target) return;
-
-    // Regex escape for replacement
-    const escapedSource = source.replace(/[.*+?^\\\${}()|[\\]\\\\]/g, '\\\\$&');
-    const regex = new RegExp(escapedSource, 'g');
-    
-    const matches = transformedCode.match(regex);
-    if (matches) {
-      changesCount += matches.length;
-      transformedCode = transformedCode.replace(regex, target);
-    }
-  });
-
-  return { code: transformedCode, changes: changesCount };
-}
-
-// --- MAIN EXECUTION ---
-const args = process.argv.slice(2);
-if (args.length < 2) {
-  console.log("------------------------------------------------");
-  console.log(" CAPL Signal Transformer CLI");
-  console.log("------------------------------------------------");
-  console.log(" Usage: node capl-transformer.js <input> <output> [options]");
-  console.log(" Options:");
-  console.log("   --mode=<HIL|SIL>       Target environment");
-  console.log("   --mapping=<path>       Path to external JSON mapping file");
-  process.exit(1);
-}
-
-const inputFile = args[0];
-const outputFile = args[1];
-const modeArg = args.find(a => a.startsWith('--mode='));
-const mappingArg = args.find(a => a.startsWith('--mapping='));
-
-const mode = modeArg ? modeArg.split('=')[1].toUpperCase() : 'SIL';
-let activeMappings = EMBEDDED_MAPPINGS;
-
-// Handle external mapping file
-if (mappingArg) {
-  const mappingPath = mappingArg.split('=')[1];
-  try {
-    if (fs.existsSync(mappingPath)) {
-      console.log(\`Loading external mappings from \${mappingPath}...\`);
-      const fileContent = fs.readFileSync(mappingPath, 'utf8');
-      activeMappings = JSON.parse(fileContent);
-      if (!Array.isArray(activeMappings)) {
-        throw new Error("Mapping file must contain a JSON array.");
-      }
-    } else {
-      throw new Error(\`Mapping file not found: \${mappingPath}\`);
-    }
-  } catch (err) {
-    console.error("Error loading mapping file:", err.message);
-    process.exit(1);
-  }
-} else {
-  console.log("Using embedded default mappings.");
-}
-
-try {
-  if (!fs.existsSync(inputFile)) {
-      throw new Error("Input file not found: " + inputFile);
-  }
-  
-  console.log(\`Reading \${inputFile}...\`);
-  const code = fs.readFileSync(inputFile, 'utf8');
-  
-  console.log(\`Applying \${activeMappings.length} mapping rules (Mode: \${mode})...\`);
-  const result = performTransformation(code, mode, activeMappings);
-  
-  fs.writeFileSync(outputFile, result.code);
-  console.log(\`Success: Written to \${outputFile}\`);
-  console.log(\`Changes made: \${result.changes}\`);
-  
-} catch (err) {
-  console.error("Error:", err.message);
-  process.exit(1);
-}
-`;
-
 export const README_CONTENT = `# CAPL Signal Transformer - User Manual
 
 ## 1. Overview
@@ -194,6 +77,60 @@ The CAPL Signal Transformer is a specialized utility for Automotive Software Eng
 - **SIL Mode (Target: Simulation)**: Converts Real Signals (e.g., \`$EngineSpeed\`, \`Msg.Signal\`) -> System Variables (e.g., \`sysvar::Engine::Speed\`).
 - **HIL Mode (Target: Hardware)**: Converts System Variables -> Real Signals.
 
+### Environment Profiles
+HIL and SIL are the two built-in *environment profiles*. Add your own for further setups, e.g. a second test bench with its own DBC (\`Bench\`, bus signals) or a VT System namespace (\`VT\`, system variables):
+- In the Mapping Rules sidebar, type a name next to **Profiles**, pick **signals** or **sysvars** and click **+** (or \`profile add Bench signal\` in the terminal). Every rule gets an extra input for the new profile; rules without a value for a profile are skipped when converting from or to it.
+- Choose any two profiles in the **FROM** / **TARGET** selectors in the header; the arrow button reverses the direction. Selecting the other side's profile swaps the two.
+- Signal -> sysvar conversions work like SIL mode, sysvar -> signal like HIL mode. Signal -> signal conversions rename signals and \`on signal\` handlers; sysvar -> sysvar conversions use the selected access syntax for the target.
+- Removing a profile also removes its values from every rule. Profiles are saved in the mapping file, the workspace and the exported CLI.
+
+### SysVar Access Syntax
+CAPL does not accept a bare \`sysvar::Engine::Speed\` inside an expression. In SIL mode the transformer tells reads from assignment targets and writes the access form you select in the header (or per rule in the Mapping Rules sidebar):
+- **@sysvar** (default): \`x = @sysvar::Engine::Speed;\` and \`@sysvar::Engine::Speed = 0;\`
+- **sysGet/SetVariable**: \`x = sysGetVariableFloat("Engine", "Speed");\` and \`sysSetVariableFloat("Engine", "Speed", 0);\` (\`Int\` variants for integer rules). Compound assignments and \`++\`/\`--\` are expanded.
+- **bare**: the target exactly as written in the mapping.
+HIL mode understands all three forms when converting back. Event handler headers such as \`on sysvar ...\` always use the bare name.
+
+### Event Handlers
+Event handler headers are translated from the mapping table:
+- SIL: \`on signal EngineMsg::Torque\` -> \`on sysvar Powertrain::Torque\` (\`signal_change\` -> \`sysvar_change\`, \`signal_update\` -> \`sysvar_update\`), and \`this\` inside becomes \`@this\`.
+- SIL: \`on message EngineMsg\` -> \`on sysvar_update Powertrain::*\` when all mapped signals of the message share one namespace; \`this.Torque\` is rewritten like \`EngineMsg.Torque\`.
+- HIL: the reverse, using the same rules (\`sysvar_change\` -> \`signal_change\`).
+Handlers that cannot be translated (no mapping, signals spread over several namespaces, \`this\` used as a whole message, ...) are kept unchanged and listed as issues in the terminal and the Replacement Report.
+
+### Dual Output
+Click **Dual** above the output (or type \`dual on\`) to keep both variants in one file while a test node is migrated. A switch system variable, \`Env::Is<target>\` by default (e.g. \`Env::IsSIL\`), selects the converted variant at run time when it is non-zero:
+- Reads become \`(@sysvar::Env::IsSIL ? @sysvar::Engine::Speed : $EngineSpeed)\`.
+- Writes call a generated setter, e.g. \`dualSet_Engine_Speed(0);\`; the setters are appended at the end of the file and pick the variant with \`if/else\`.
+- Translated event handlers are kept and a copy with the converted header is inserted right after; both copies contain the dual code.
+Limits: call rules are not applied, and handlers that use \`this\` or cover a whole message or namespace are kept unchanged; each case is listed as an issue. Declare the switch variable in your \`.vsysvar\` and set it in the test configuration. Leftover check and round-trip verification do not apply to dual output.
+
+### Gateway Node
+Instead of rewriting the tests, a gateway node can keep real signals and system variables in sync while the tests run unchanged. Click **Gateway** in the header (or type \`gateway\`) and download \`gateway.can\`, a complete CAPL node built from the mapping table:
+- **real signals -> system variables**: an \`on signal\` handler per rule copies the signal into its sysvar.
+- **system variables -> real signals**: an \`on sysvar\` handler per rule writes the sysvar value onto the bus.
+- **both directions**: both handlers; values are only written when they differ, so a change does not bounce back. At start-up (and on each cycle) the real signals are the reference.
+- **Refresh every N ms**: adds an \`msTimer\` that copies all values cyclically, in addition to the event handlers.
+Only signal rules from a real signal (\`$Sig\`, \`Msg.Sig\`) to a \`sysvar::\` path are bridged; \`Msg.Sig\` is addressed as \`$Msg::Sig\`. Call rules, pattern rules and second rules for an already bridged signal or sysvar are skipped and listed at the end of the file. Sysvars are accessed with the selected access syntax (\`bare\` uses \`@sysvar\`).
+
+### Projects (.can + .cin)
+- Click **Folder** above the source panel (or type \`upload folder\`) to load a whole test node directory, or select several files in **Upload File**.
+- \`#include "..."\` lines inside \`includes { }\` are resolved relative to the including file (backslashes and \`..\` are fine). The project panel shows the include tree with the number of replacements per file; includes that were not part of the upload are marked **missing**.
+- Every file is transformed with the same mapping table. Click a file to view and edit it in the source panel.
+- The archive button (or \`download zip\`) downloads the converted project as a \`.zip\` with the original directory layout.
+
+### Workspaces
+- Your work is saved automatically in the browser (IndexedDB) as a named workspace: source file or project, mapping table with its header, loaded \`.vsysvar\`, environment profiles and conversion, access style and terminal history. Reloading the page reopens the last workspace.
+- Use the workspace menu next to the title to switch, create, duplicate, rename or delete workspaces.
+- **Export** saves the whole workspace as one \`.capl-workspace.json\` file; **Import** adds it as a new workspace, e.g. on a colleague's machine.
+- Browser storage is per browser profile. Export workspaces you want to keep or share.
+
+### Undo / Redo
+- Source edits, mapping changes (manual edits, presets, JSON/DBC imports, AI suggestions, added or removed profiles), conversion switches, swaps and AI transformations are recorded as labeled steps, e.g. "Loaded preset Body Control". Typing is grouped into one step.
+- **Ctrl+Z** undoes, **Ctrl+Y** or **Ctrl+Shift+Z** redoes (Cmd on macOS); the arrow buttons in the header and the \`undo\`/\`redo\` terminal commands do the same. Inside other text fields (rule inputs, the JSON view, the terminal) the shortcuts undo typing in that field only.
+- The history button lists all steps; click one to jump back (or forward) to it. A new edit after an undo discards the steps ahead.
+- The last 100 steps are kept. History starts fresh when you open a workspace and is not saved with it.
+
 ## 3. Managing Mappings
 The tool relies on a precise mapping table to perform substitutions.
 
@@ -203,51 +140,152 @@ The tool relies on a precise mapping table to perform substitutions.
 - **HIL (Real)**: The signal name as used in CAN/LIN.
 - **SIL (SysVar)**: The corresponding system variable.
 
+### Unmapped Signals
+- The sidebar lists every \`$Signal\`, \`Msg.Signal\` and \`sysvar::\` reference in the source that no rule rewrites, with occurrence count and line numbers. It works offline and gives the same answer every time.
+- \`Msg.Signal\` is listed for any \`Msg\` that is not a variable declared in the file (members of \`message\` or \`struct\` variables are skipped), so messages that no rule names yet show up too.
+- Click **+** next to a reference (or **add all**, or type \`scan add\`) to create a pre-filled rule: \`$Sig\` -> \`sysvar::Signals::Sig\`, \`Msg.Sig\` -> \`sysvar::Msg::Sig\`, \`sysvar::A::B\` <- \`$B\`. Review the suggested names before converting.
+
+### Pattern Rules
+- Use named captures in curly braces to cover a whole family of signals with one rule, e.g. \`$RadarObj{n}_Dist\` <-> \`sysvar::Sensors::Radar::Obj{n}::Dist\`.
+- A capture matches letters, digits and underscores inside a single signal token; the same name used twice must match the same text.
+- Pattern rules work in both SIL and HIL direction. Literal rules take precedence over pattern rules.
+- The Replacement Report lists which concrete signals each pattern rule matched.
+
+### Call Rules
+- Switch a rule from **signal** to **call** to rewrite whole function calls, e.g. \`output($msg)\` <-> \`SilBus_Inject($msg)\`.
+- Calls match by function name and number of arguments. \`$name\` takes any argument, \`"$name"\` a string literal, anything else must match exactly.
+- Captured arguments are rewritten with the other rules before they are inserted, so \`output(foo($EngineSpeed))\` also converts the signal.
+- \`$ns\` and \`$var\` resolve to the sysvar a captured signal argument is mapped to: \`getSignal($s)\` -> \`sysGetVariableFloat("$ns", "$var")\` turns \`getSignal(EngineMsg.Torque)\` into \`sysGetVariableFloat("Powertrain", "Torque")\`, and HIL mode reverses it.
+- Calls whose placeholders cannot be resolved are kept and listed as issues in the Replacement Report. In HIL mode, an unresolved \`sysGetVariable*\` / \`sysSetVariable*\` call is converted by the signal and pattern rules like any other sysvar access instead.
+
+### DBC Import
+- Click the **database** icon in the Mapping Rules toolbar (or type \`upload dbc\` in the terminal) to load a \`.dbc\` file.
+- Every \`SG_\` signal becomes a rule: \`Msg.Signal\` (or \`$Signal\` when the selector is set to **$Sig** / \`upload dbc $\`) mapped to a suggested \`sysvar::<Msg>::<Signal>\`.
+- Units, factor/offset, min/max, start values and value tables are kept on the rule as \`attributes\`. Value tables come from the signal's \`VAL_\` line or, without one, from the \`VAL_TABLE_\` of its signal type (\`SIG_TYPE_REF_\`).
+- Start values outside the signal's [min|max] range are clamped to it and reported.
+- Signals that are already mapped are skipped.
+
 ### JSON Import/Export
-- You can upload a \`.json\` file containing an array of rule objects.
-- Structure:
+- Export saves a versioned mapping file: a \`header\` (schema version, project name, author, imported DBC/\`.vsysvar\` files, created/updated timestamps) plus the rules. Edit the project name and author above the rule list.
+- Structure (JSON Schema: \`schemas/mapping-file.schema.json\`):
   \`\`\`json
-  [
-    {
-      "id": "1",
-      "realSignal": "$EngineSpeed",
-      "simSignal": "sysvar::Engine::Speed",
-      "description": "RPM Signal"
-    }
-  ]
+  {
+    "header": {
+      "schemaVersion": 2,
+      "project": "Powertrain HIL",
+      "author": "J. Doe",
+      "dbc": ["powertrain.dbc"],
+      "createdAt": "2024-05-02T08:00:00.000Z",
+      "updatedAt": "2024-05-03T14:12:00.000Z"
+    },
+    "profiles": [
+      { "id": "Bench", "name": "Bench", "kind": "signal" }
+    ],
+    "mappings": [
+      {
+        "id": "1",
+        "realSignal": "$EngineSpeed",
+        "simSignal": "sysvar::Engine::Speed",
+        "description": "RPM Signal",
+        "values": { "Bench": "$BenchEngineSpeed" }
+      }
+    ]
+  }
   \`\`\`
+- \`realSignal\` and \`simSignal\` hold the HIL and SIL values; \`profiles\` (optional) lists additional environment profiles and \`values\` each rule's value for them, keyed by profile id.
+- Every import (sidebar, \`upload mapping\`, CLI \`--mapping\`) is validated strictly: missing or mistyped fields, unknown properties and duplicate IDs are rejected with the exact location, e.g. \`rule #4 mappings[3].simSignal: is required\`.
+- Legacy files that are a bare array of rules (version 1) are migrated automatically; export again to save them in the new format.
+
+### CANoe System Variables (.vsysvar)
+- Click the **.vsysvar** icon next to the JSON export to download a system variable definition file for CANoe.
+- Every \`sysvar::A::B::Var\` target becomes a variable \`Var\` in the namespace tree \`A\` / \`B\`.
+- Data type, unit, min/max and start value come from the rule \`attributes\` (e.g. from a DBC import); rules without attributes default to \`float\` with start value 0.
+- Rules whose SIL side is not a plain sysvar (e.g. function calls) are skipped.
+
+### Validating Against an Existing .vsysvar
+- Click the **folder tree** icon (or type \`upload vsysvar\`) to load the \`.vsysvar\` file of your CANoe configuration.
+- Every SIL target is checked against the declared namespaces and variables. Unknown targets are outlined in red, with a one-click fix when a close match exists (e.g. \`Torqe\` -> \`Torque\`).
+- The SIL input offers autocomplete from the imported tree.
+- \`run\` warns when the SIL output references undeclared sysvars; \`run --strict\` refuses to update the output.
 
 ## 4. AI-Powered Features
-- **AI Scan**: Scans your source code to identify potential real signals and suggests mapping rules automatically.
-- **Smart AI Refactor**: Uses Gemini models to perform context-aware code transformation for complex patterns that Regex cannot handle.
+- **AI Scan**: Scans your source code to identify potential real signals and suggests mapping rules for review.
+- **Smart AI Refactor**: Uses a language model to perform context-aware code transformation for complex patterns that Regex cannot handle.
+
+### Reviewing AI Results
+The result of **Smart AI Refactor** does not replace the output directly. It is compared with the source token by token first:
+- Replacing a mapped reference with its counterpart (in any access syntax) and calls rewritten by call rules are expected.
+- Everything else is listed: changed logic or operators, added or removed code, renamed identifiers, dropped comments, and signals replaced with something the mapping table does not map them to. Mapped references the model left unconverted are reported as well.
+- The review dialog groups the edits into hunks of whole lines. **Accept All** takes the AI result as it is, **Reject** discards it, and **Apply Selected** applies only the checked hunks (hunks with expected edits only are pre-selected).
+The same summary is printed in the terminal.
+
+### Reviewing AI Mapping Suggestions
+**AI Scan & Suggest** does not add rules directly. Its suggestions land in a review queue above the rule list:
+- Each entry shows the suggested sysvar name, a confidence score (\`no score\` when the model gave none), alternative names and the source lines that reference the signal. Signals the source never references are flagged and their confidence is lowered.
+- Edit the name (or click an alternative), then **accept** (check mark) to add the rule, or **reject** (X). **dismiss** closes the queue without rejecting anything.
+- Signals that are already mapped are not suggested. Rejected signals are remembered in the workspace and skipped by later scans; \`ai rejected\` lists them and \`ai rejected clear\` forgets them.
+
+### AI Provider
+Click **AI** in the header (or type \`ai settings\`) to choose the backend:
+- **Google Gemini**: model (default \`gemini-2.5-flash\`) and API key.
+- **OpenAI-compatible**: any server with a \`/chat/completions\` endpoint, e.g. a local Ollama (\`http://localhost:11434/v1\`) or llama.cpp server (\`http://localhost:8080/v1\`), with the model name and an optional API key. Nothing leaves your network.
+- **None**: the AI buttons are disabled; everything else works offline.
+**Test** sends a short prompt to check the connection. The settings are kept in this browser only, not in workspaces or exports. A build with \`GEMINI_API_KEY\` set starts with Gemini until you save other settings.
 
 ## 5. Jenkins & CI/CD Integration
 Enable headless automation for your build pipelines.
 
 1. **Export the CLI Tool**
    - Click the **Export CLI** button in the header.
-   - Downloads \`capl-transformer.js\` with your *current mappings embedded*.
+   - Downloads \`capl-transformer.cjs\`, built from the same transformer as this page, with your *current mappings, profiles, conversion, access style and dual output switch embedded* as defaults.
+   - From a checkout of this repository, \`npm run build:cli\` produces the same tool (without embedded mappings) in \`dist/\`.
 
 2. **Run in Node.js**
    \`\`\`bash
    # Syntax
-   node capl-transformer.js <input> <output> --mode=<HIL|SIL> [--mapping=<file.json>]
+   node capl-transformer.cjs <inputs...> [--out-dir=<dir> | -o <file> | --in-place | --dry-run] [options]
+
+   # Single file with the embedded rules
+   node capl-transformer.cjs test.can -o test_sil.can --mode=SIL
+
+   # Whole test node folder, keeping the directory layout
+   node capl-transformer.cjs nodes/ --out-dir=build/sil --mapping=mappings.json
+
+   # Glob (quote it), report only, machine-readable
+   node capl-transformer.cjs "nodes/**/*.cin" --dry-run --report=json > report.json
+   \`\`\`
+   Other options: \`--access=at|function|bare\`, \`--skip-check\` (ignore mapping table errors), \`--verify-roundtrip\`. \`--help\` lists them all.
+
+   Convert between any two environment profiles with \`--from\` and \`--to\` (names or ids; \`--to\` alone keeps the current source profile):
+   \`\`\`bash
+   node capl-transformer.cjs nodes/ --out-dir=build/bench --mapping=mappings.json --from=HIL --to=Bench
+   \`\`\`
+
+   \`--dual[=<switch>]\` writes dual output (see *Dual Output*) instead of converted code; \`--no-dual\` turns off a dual setting embedded by the web tool.
 
-   # Example with embedded rules
-   node capl-transformer.js test.can test_sil.can --mode=SIL
+   Exit codes: \`0\` success, \`1\` I/O or mapping file error, \`2\` round-trip mismatch, \`3\` mapping table errors, \`4\` usage error or no input files, \`5\` leftovers found by \`--check\`.
 
-   # Example with external mapping file
-   node capl-transformer.js test.can test_sil.can --mode=SIL --mapping=mappings.json
+3. **Use it as a Gate (\`--check\`)**
+   - \`--check\` converts every input in memory and fails (exit code \`5\`) if the result still contains real-signal syntax after SIL conversion (\`$X\`, \`Msg.Sig\` unless \`Msg\` is a variable declared in the file, \`on signal\` handlers) or any \`sysvar::\` / \`@\` / \`sysGetVariable\` reference after HIL conversion. Between two profiles of the same kind, every remaining reference to a mapped source value is a leftover.
+   - Nothing is written unless an output option is given. \`--report=json\` adds the leftovers per file; \`--junit=<file.xml>\` writes a JUnit report with one test case per file.
+   \`\`\`bash
+   node capl-transformer.cjs src/ --mode=SIL --check --junit=reports/capl-check.xml
    \`\`\`
 
-3. **Jenkins Pipeline Example**
+4. **Jenkins Pipeline Example**
    \`\`\`groovy
    stage('CAPL Transformation') {
        steps {
            // Using an external mapping file maintained in the repo
-           sh 'node capl-transformer.js src/test.can dist/test.can --mode=SIL --mapping=configs/mapping.json'
+           sh 'node capl-transformer.cjs src/ --out-dir=dist --mode=SIL --mapping=configs/mapping.json --verify-roundtrip'
        }
    }
+   stage('CAPL Gate') {
+       steps {
+           sh 'node capl-transformer.cjs dist/ --mode=SIL --mapping=configs/mapping.json --check --junit=reports/capl-check.xml'
+       }
+       post { always { junit 'reports/capl-check.xml' } }
+   }
    \`\`\`
 
 ## 6. Internal Terminal (CLI)
@@ -255,15 +293,44 @@ Press **~ (Tilde)** to open the built-in console.
 
 ### Commands
 - **upload**: Open file picker for Source Code.
-- **upload mapping**: Open file picker for JSON Rules.
-- **run**: Execute transformation immediately.
-- **swap**: Move Output -> Input and toggle Mode (for round-trip verification).
-- **download**: Save the transformed file.
-- **export**: Download the CI/CD script.
-- **mode [hil | sil]**: Switch target environment.
+- **upload mapping**: Open file picker for a mapping file (validated; legacy files are migrated).
+- **upload folder**: Load a project folder with \`.can\`/\`.cin\` files.
+- **upload dbc [$]**: Import signals from a DBC file (\`$\` selects \`$Signal\` syntax).
+- **upload vsysvar**: Load a \`.vsysvar\` file to validate SIL targets.
+- **run [--strict]**: Execute transformation immediately. With \`--strict\`, undeclared sysvars in SIL output are an error.
+- **swap**: Move Output -> Input and reverse the conversion (for round-trip verification).
+- **verify**: Transform and transform back automatically; lists every line that did not come back unchanged with the responsible rules. Also available as the **Verify** button and as \`--verify-roundtrip\` in the exported CLI (exit code 2 on mismatch).
+- **download [zip]**: Save the transformed file, or the whole converted project as a zip.
+- **project**: Print the project include tree with per-file replacement counts.
+- **report [json]**: List every replacement (rule, line, column, enclosing handler) or export it as JSON.
+- **export**: Download the CI/CD command line tool (\`capl-transformer.cjs\`).
+- **gateway [sysvar | signal | both] [ms]**: Download a gateway node, e.g. \`gateway sysvar 50\` (real signals -> sysvars, refreshed every 50 ms). Defaults to both directions without a timer.
+- **mode [from] <to>**: Switch the conversion, e.g. \`mode sil\`, \`mode hil bench\` or \`mode Bench -> VT\` (\`h\`/\`s\` are short for HIL/SIL). Naming the current source profile reverses the direction; without arguments, shows the current conversion.
+- **profile list**: List environment profiles with their kind and how many rules cover them.
+- **profile add <name> [signal | sysvar]**, **profile remove <name>**: Add or remove an environment profile (removing also drops its values from the rules).
+- **undo / redo**: Step back or forward through the edit history.
+- **history**: List the recorded steps (\`*\` marks the current one).
+- **ws list**: List saved workspaces (\`*\` marks the open one).
+- **ws open <name>**: Save the current workspace and switch to another.
+- **ws save [name]**: Save now; with a new name, save a copy under that name and switch to it.
+- **ws new | duplicate | rename | delete <name>**, **ws export | import**: Same as the workspace menu.
+- **dual [on | off | <switch>]**: Turn dual output on or off, or turn it on with another switch variable, e.g. \`dual Config::UseSim\`.
+- **ai [settings | off]**: Show the AI provider, open its settings or disable AI features.
+- **ai rejected [clear]**: List the rejected AI mapping suggestions of this workspace, or forget them.
+- **access [at | function | bare]**: Set the SIL sysvar access syntax.
+- **check**: Analyze the mapping table for duplicates, overlaps and empty fields.
+- **scan [add]**: List signal and sysvar references in the source that no rule covers; \`add\` creates pre-filled rules for them.
+- **check output**: List real signal references (\`$X\`, \`Msg.Sig\`) left in SIL output, or sysvar references left in HIL output (mapped source values between profiles of the same kind) — the same check as \`--check\` in the CLI.
 - **clear**: Clear the editor.
 
+### Diff View
+Click **Diff** above the output to see source and transformed code side by side, aligned line by line. Replaced spans are highlighted; use the arrows to jump to the previous/next change. Clicking a highlighted change reveals the rule that produced it in the Mapping Rules sidebar.
+
+### Replacement Report
+Click the **N replacements** badge above the output to open the report. Each row shows the rule ID, source and target text, the position in the source file, and the enclosing event handler (e.g. \`on timer tCheck\`). Use **JSON** to export it, e.g. to attach to a pull request.
+
 ## 7. Troubleshooting
-- **Partial Matches**: The tool automatically sorts rules by length (longest first) to prevent partial replacement errors (e.g. replacing \`$Speed\` inside \`$SpeedFront\`).
-- **Syntax Errors**: Use the built-in JSON validator in the Mapping Editor to check your rules.
+- **Partial Matches**: The transformer tokenizes the CAPL code and only replaces whole signal tokens, so \`$Speed\` is never rewritten inside \`$SpeedFront\`, comments, or \`write("...")\` strings.
+- **Syntax Errors**: Use the built-in JSON validator in the Mapping Editor to check your rules; it names the rule index and field of the first error.
+- **Inconsistent Rules**: Each rule shows badges for consistency problems: \`empty\` fields, \`duplicate\` real signals, \`many→1\` targets (ambiguous HIL reversal), \`overlap\` (one signal is a substring of another) and \`chained\` (a target contains another rule's source). Type \`check\` in the terminal for a summary. The exported CLI runs the same checks and aborts on errors unless \`--skip-check\` is given.
 `;
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiProviderKind, AiSettings } from "../types";
+
+const SETTINGS_KEY = 'capl-transformer.aiSettings';
+
+export const AI_PROVIDER_LABELS: Record<AiProviderKind, string> = {
+  none: 'None (AI disabled)',
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible (Ollama, llama.cpp, ...)',
+};
+
+export const DEFAULT_MODELS: Record<AiProviderKind, string> = {
+  none: '',
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+};
+
+export const DEFAULT_OPENAI_ENDPOINT = 'http://localhost:11434/v1';
+
+export interface AiCompletionOptions {
+  json?: boolean; // ask for a JSON object instead of free text
+}
+
+export interface AiProvider {
+  label: string; // e.g. "Google Gemini (gemini-2.5-flash)"
+  complete: (prompt: string, options?: AiCompletionOptions) => Promise<string>;
+}
+
+/**
+ * Settings used until the user saves their own: Gemini if the build was
+ * given a GEMINI_API_KEY, otherwise no provider.
+ */
+export const defaultAiSettings = (): AiSettings => {
+  const apiKey = process.env.API_KEY ?? '';
+  return apiKey
+    ? { provider: 'gemini', endpoint: '', model: DEFAULT_MODELS.gemini, apiKey }
+    : { provider: 'none', endpoint: DEFAULT_OPENAI_ENDPOINT, model: '', apiKey: '' };
+};
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) return { ...defaultAiSettings(), ...JSON.parse(stored) };
+  } catch {
+    // Storage disabled or unreadable: fall back to the defaults
+  }
+  return defaultAiSettings();
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage disabled: the settings last for this session only
+  }
+};
+
+/**
+ * Why the settings cannot be used, or null if they are complete.
+ */
+export const aiSettingsProblem = (settings: AiSettings): string | null => {
+  if (settings.provider === 'none') return 'No AI provider is configured';
+  if (!settings.model.trim()) return 'No model is set';
+  if (settings.provider === 'gemini' && !settings.apiKey.trim()) return 'Gemini needs an API key';
+  if (settings.provider === 'openai' && !/^https?:\/\/\S+$/.test(settings.endpoint.trim())) {
+    return 'The endpoint must be an http(s) URL';
+  }
+  return null;
+};
+
+const createGeminiProvider = ({ model, apiKey }: AiSettings): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    label: `${AI_PROVIDER_LABELS.gemini} (${model})`,
+    complete: async (prompt, options = {}) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: options.json ? { responseMimeType: "application/json" } : undefined,
+      });
+      return response.text ?? '';
+    },
+  };
+};
+
+const createOpenAiProvider = ({ endpoint, model, apiKey }: AiSettings): AiProvider => {
+  const url = `${endpoint.trim().replace(/\/+$/, '')}/chat/completions`;
+  return {
+    label: `${model} at ${endpoint.trim()}`,
+    complete: async (prompt, options = {}) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0,
+          ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`${url} answered ${response.status} ${response.statusText}: ${(await response.text()).slice(0, 200)}`);
+      }
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') throw new Error(`${url} returned no choices[0].message.content`);
+      return text;
+    },
+  };
+};
+
+/**
+ * The configured backend, or null if AI features are disabled.
+ */
+export const createAiProvider = (settings: AiSettings): AiProvider | null => {
+  if (aiSettingsProblem(settings)) return null;
+  const trimmed = { ...settings, model: settings.model.trim() };
+  return settings.provider === 'gemini' ? createGeminiProvider(trimmed) : createOpenAiProvider(trimmed);
+};
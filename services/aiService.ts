@@ -0,0 +1,102 @@
+import { EnvironmentProfile, MappingCandidate, SignalMapping } from "../types";
+import { PROFILE_KIND_LABELS } from "../utils/profiles";
+import { AiProvider } from "./aiProviders";
+
+// Models like to wrap their answer in a markdown code block
+const stripCodeFence = (text: string) => text.replace(/```[a-z]*/gi, '').trim();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Models report confidence as a number or a numeric string; 0 is a valid answer
+const toConfidence = (value: unknown): number | undefined => {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Uses the configured AI provider to intelligently transform CAPL code when simple regex is insufficient.
+ * `mappings` come from projectConversion, so a conversion from a signal profile reads realSignal.
+ */
+export const transformCodeWithAI = async (
+  code: string,
+  from: EnvironmentProfile,
+  to: EnvironmentProfile,
+  mappings: SignalMapping[],
+  provider: AiProvider
+): Promise<string> => {
+  if (!code.trim()) return "";
+
+  const describe = (p: EnvironmentProfile) => `"${p.name}" (${PROFILE_KIND_LABELS[p.kind]})`;
+  const pairs = mappings.map(m => (from.kind === 'signal' ? [m.realSignal, m.simSignal] : [m.simSignal, m.realSignal]));
+  const mappingDesc = pairs.map(([source, target]) => `"${source}" -> "${target}"`).join("\n");
+
+  const prompt = `
+    You are an expert Vector CANoe CAPL developer. 
+    Your task is to refactor the following CAPL code, written for the ${describe(from)} environment, for the ${describe(to)} environment.
+    
+    Rules:
+    1. Replace every reference to a mapped ${from.name} signal with its ${to.name} counterpart from the list below (left side -> right side).
+    2. Convert event handler headers (on signal / on sysvar) the same way.
+    3. Keep all logic, comments, and structure exactly the same. Only change the signal references.
+    4. Return ONLY the code. No markdown formatting, no explanation.
+
+    Mappings provided (${from.name} -> ${to.name}):
+    ${mappingDesc}
+
+    Code to Transform:
+    ${code}
+  `;
+
+  try {
+    return stripCodeFence(await provider.complete(prompt));
+  } catch (error) {
+    console.error("AI Transformation Error:", error);
+    throw new Error(`Failed to transform code using ${provider.label}: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Uses the configured AI provider to analyze CAPL code and propose mapping candidates for review.
+ */
+export const generateMappingsFromCode = async (code: string, provider: AiProvider): Promise<MappingCandidate[]> => {
+  if (!code.trim()) return [];
+
+  const prompt = `
+    Analyze the following CAPL code and identify all potential real signals (e.g., $SignalName, Message.Signal).
+    Create a JSON mapping structure for them where you suggest a hypothetical System Variable name for each.
+    
+    The output must be a JSON object { "mappings": [...] } where each entry has this schema:
+    {
+      "realSignal": "string (exactly as written in the code)",
+      "simSignal": "string (suggested sysvar format e.g. sysvar::Namespace::Var)",
+      "description": "string (what the signal appears to be, based on how the code uses it)",
+      "confidence": "number between 0 and 1 (how sure you are about the simSignal name)",
+      "alternatives": ["up to 2 other plausible sysvar names, same format as simSignal"]
+    }
+    Only list signals that actually appear in the code.
+
+    Code:
+    ${code}
+  `;
+
+  try {
+    const result = JSON.parse(stripCodeFence(await provider.complete(prompt, { json: true })));
+    // Some models answer with the bare array
+    const items: unknown[] = Array.isArray(result) ? result : isObject(result) && Array.isArray(result.mappings) ? result.mappings : [];
+    return items
+      .filter((item): item is Record<string, unknown> =>
+        isObject(item) && typeof item.realSignal === 'string' && typeof item.simSignal === 'string')
+      .map(item => ({
+        realSignal: item.realSignal as string,
+        simSignal: item.simSignal as string,
+        description: typeof item.description === 'string' ? item.description : undefined,
+        confidence: toConfidence(item.confidence),
+        alternatives: Array.isArray(item.alternatives) ? item.alternatives.filter((a): a is string => typeof a === 'string') : []
+      }));
+
+  } catch (error) {
+    console.error("AI Mapping Generation Error:", error);
+    throw new Error(`Failed to generate mappings using ${provider.label}: ${(error as Error).message}`);
+  }
+};
@@ -3,14 +3,220 @@ export enum TestMode {
   SIL = 'SIL', // Software-in-the-Loop (System Variables / DLL)
 }
 
+export interface SignalAttributes {
+  dataType?: 'int' | 'float';
+  unit?: string;
+  factor?: number;
+  offset?: number;
+  min?: number;
+  max?: number;
+  initialValue?: number;
+  valueTable?: Record<string, string>; // raw value -> description
+}
+
+// How a sysvar target is written in SIL code:
+// 'at'       -> @sysvar::A::B (reads and "= x" writes)
+// 'function' -> sysGetVariableFloat("A", "B") / sysSetVariableFloat("A", "B", x)
+// 'bare'     -> sysvar::A::B, exactly as written in the mapping
+export type SysvarAccessStyle = 'at' | 'function' | 'bare';
+
+// 'convert' -> code for the target environment only
+// 'dual'    -> both variants, selected at run time by a switch sysvar
+export type OutputStyle = 'convert' | 'dual';
+
+// 'signal' rules rewrite signal references; 'call' rules rewrite function
+// calls from an argument template, e.g. "output($m)" -> "SilBus_Inject($m)"
+export type MappingKind = 'signal' | 'call';
+
 export interface SignalMapping {
   id: string;
+  kind?: MappingKind; // 'signal' if omitted
   realSignal: string; // e.g., "EngineMsg.Speed" or "$EngineSpeed"
   simSignal: string;  // e.g., "sysvar::Engine::Speed" or "EnvVar_Speed"
   description?: string;
+  attributes?: SignalAttributes; // e.g. imported from a DBC file
+  accessStyle?: SysvarAccessStyle; // overrides the project setting
+  values?: Record<string, string>;  // columns of additional environment profiles, by profile id
+}
+
+// How an environment refers to signals: bus signals ($Sig, Msg.Sig) or system variables
+export type ProfileKind = 'signal' | 'sysvar';
+
+// A target environment and its mapping column. The built-in profiles 'HIL'
+// and 'SIL' use realSignal and simSignal; others use SignalMapping.values.
+export interface EnvironmentProfile {
+  id: string;
+  name: string;
+  kind: ProfileKind;
+}
+
+// Direction of a transformation, as profile ids
+export interface Conversion {
+  from: string;
+  to: string;
+}
+
+// Header of a saved mapping file (schema version 2 and later)
+export interface MappingFileHeader {
+  schemaVersion: number;
+  project: string;
+  author?: string;
+  dbc?: string[];     // DBC files the rules were imported from
+  vsysvar?: string[]; // .vsysvar files the targets are validated against
+  createdAt: string;  // ISO 8601
+  updatedAt: string;
+}
+
+export interface MappingDocument {
+  $schema?: string;
+  header: MappingFileHeader;
+  profiles?: EnvironmentProfile[]; // additional profiles; HIL and SIL are built in
+  mappings: SignalMapping[];
+}
+
+// A mapping proposed by the AI, as returned by the model
+export interface MappingCandidate {
+  realSignal: string;
+  simSignal: string;
+  description?: string;
+  confidence?: number;     // 0..1
+  alternatives?: string[]; // other sysvar names
+}
+
+// A candidate checked against the source, waiting in the review queue
+export interface MappingSuggestion {
+  id: string;
+  realSignal: string;
+  simSignal: string;
+  description?: string;
+  confidence?: number;                         // 0..1, lowered when the signal is not found in the source; unset when the model gave none
+  alternatives: string[];                      // other sysvar names, valid paths only
+  evidence: { line: number; text: string }[];  // source lines that reference the signal
+  occurrences: number;
+}
+
+export interface ReplacementEntry {
+  mappingId: string;
+  source: string;         // text as found in the input
+  target: string;         // text written to the output
+  line: number;           // 1-based, in the input
+  column: number;         // 1-based, in the input
+  handler: string | null; // enclosing block, e.g. "on timer tCheck"
+  captures?: Record<string, string>; // pattern rules only, e.g. { n: "3" }
+  access: 'read' | 'write';
+  start: number;          // offset range in the input
+  end: number;
+  outputStart: number;    // offset range in the output
+  outputEnd: number;
+}
+
+export interface SysvarDeclarations {
+  source: string;       // file name the declarations were loaded from
+  namespaces: string[]; // e.g. "Sensors::Radar"
+  variables: string[];  // e.g. "Engine::Speed"
+}
+
+export interface TransformOptions {
+  accessStyle?: SysvarAccessStyle; // project default, 'at' if omitted
+  sysvarTargets?: boolean;         // HIL direction with sysvar targets (sysvar-to-sysvar profiles)
+  dualSwitch?: string;             // dual output: keep both variants behind this sysvar, e.g. "Env::IsSIL"
+}
+
+export interface TransformationIssue {
+  line: number;
+  column: number;
+  message: string;
+  handler: string | null;
 }
 
 export interface TransformationResult {
   code: string;
   changes: number;
+  replacements: ReplacementEntry[];
+  issues: TransformationIssue[]; // e.g. event handlers that could not be translated
+}
+
+export interface ProjectFile {
+  path: string;    // relative to the project root, forward slashes
+  content: string;
+}
+
+export interface ProjectFileResult {
+  path: string;
+  result: TransformationResult;
+  includes: string[];        // resolved paths of files loaded in the project
+  missingIncludes: string[]; // #include targets that were not uploaded
+}
+
+export interface ProjectResult {
+  files: ProjectFileResult[];
+  totalChanges: number;
+}
+
+// What a named workspace keeps between sessions (see utils/workspaces.ts)
+export interface WorkspaceState {
+  inputCode: string;
+  project: ProjectFile[] | null;
+  activeFile: string | null;
+  mappings: SignalMapping[];
+  mappingHeader: MappingFileHeader;
+  profiles: EnvironmentProfile[]; // additional profiles
+  conversion: Conversion;
+  accessStyle: SysvarAccessStyle;
+  outputStyle: OutputStyle;
+  dualSwitch: string; // switch sysvar for dual output; empty for the default
+  sysvars: SysvarDeclarations | null;
+  rejectedSignals: string[]; // AI mapping suggestions the user rejected, by real signal
+  terminalLogs: string[];
+}
+
+export interface WorkspaceInfo {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+}
+
+export interface Workspace extends WorkspaceInfo, WorkspaceState {}
+
+// Editor state covered by undo/redo (see utils/history.ts)
+export interface EditorSnapshot {
+  inputCode: string;
+  outputCode: string;
+  project: ProjectFile[] | null;
+  activeFile: string | null;
+  mappings: SignalMapping[];
+  profiles: EnvironmentProfile[];
+  conversion: Conversion;
+}
+
+export type CaplTokenKind =
+  | 'whitespace'
+  | 'comment'
+  | 'string'     // "..." literal, including format strings
+  | 'char'       // 'a' literal
+  | 'number'
+  | 'identifier' // plain or scoped name, e.g. "EngineMsg" or "Powertrain::Torque"
+  | 'signal'     // $-prefixed signal, e.g. "$EngineSpeed" or "$EngineMsg::Torque"
+  | 'sysvar'     // "sysvar::A::B" or "@A::B" / "@sysvar::A::B"
+  | 'operator';
+
+export interface CaplToken {
+  kind: CaplTokenKind;
+  text: string;
+  start: number; // offset into the source
+  end: number;   // exclusive
+  line: number;  // 1-based
+  column: number; // 1-based
+}
+
+// Backend for the AI features; 'none' disables them
+export type AiProviderKind = 'none' | 'gemini' | 'openai';
+
+// Set at run time in the AI settings dialog and kept in the browser
+export interface AiSettings {
+  provider: AiProviderKind;
+  endpoint: string; // base URL of an OpenAI-compatible server, e.g. "http://localhost:11434/v1"
+  model: string;
+  apiKey: string;   // optional for local servers
 }
@@ -0,0 +1,349 @@
+import { CaplToken, SignalMapping } from "../types";
+import { significantTokens, tokenizeCapl, tokenKey } from "./caplLexer";
+import { parseCallTemplate } from "./callRules";
+import { parseRealSignal } from "./handlerTranslation";
+import { matchSequences } from "./sequenceDiff";
+import { mergeAccessorCalls } from "./sysvarAccess";
+import { isPatternRule } from "./transformer";
+import { parseSysvarPath } from "./vsysvar";
+
+// 'mapped'  -> a signal reference replaced by its mapped counterpart
+// 'call'    -> a call rewritten by a call rule (arguments are not checked)
+// 'signal'  -> a signal reference replaced by something the table does not map it to
+// 'rename'  -> an identifier renamed
+// 'comment' -> a comment changed, added or dropped
+// 'logic'   -> any other code change
+export type AiEditKind = 'mapped' | 'call' | 'signal' | 'rename' | 'comment' | 'logic';
+
+export interface AiEdit {
+  kind: AiEditKind;
+  description: string;
+  line: number;   // 1-based, in the original
+  aiLine: number; // 1-based, in the AI result
+}
+
+// Whole lines of the original and the AI result that belong together
+export interface AiHunk {
+  edits: AiEdit[];
+  expected: boolean; // all edits are mapped replacements or call rules
+  start: number;     // span of the original replaced by `replacement`
+  end: number;
+  original: string;
+  replacement: string;
+  line: number;      // first line in the original
+  aiLine: number;    // first line in the AI result
+}
+
+export interface AiGuardResult {
+  hunks: AiHunk[];
+  unexpected: number;                            // edits that are neither 'mapped' nor 'call'
+  unconverted: { line: number; text: string }[]; // mapped references the AI left as they were
+}
+
+export const isExpectedEdit = (edit: AiEdit) => edit.kind === 'mapped' || edit.kind === 'call';
+
+// Above this many differing units the AI result is reviewed as a single edit
+const MAX_EDITS = 2000;
+
+interface Unit {
+  key: string;    // comparison key; mapped references compare by rule
+  ruleId?: string;
+  kind: CaplToken['kind'];
+  text: string;
+  start: number;
+  end: number;
+  line: number;
+  endLine: number;
+}
+
+// Unit index ranges [a0, a1) of the original and [b0, b1) of the AI result
+interface UnitRange {
+  a0: number;
+  a1: number;
+  b0: number;
+  b1: number;
+}
+
+const HANDLER_KINDS: Record<string, string> = {
+  signal: 'change', signal_change: 'change', sysvar: 'change', sysvar_change: 'change',
+  signal_update: 'update', sysvar_update: 'update',
+};
+
+const isOp = (t: CaplToken | undefined, text: string) => !!t && t.kind === 'operator' && t.text === text;
+
+// Same key for every spelling of a reference: $Msg::Sig, $CAN1::Msg::Sig, Msg.Sig; @A::B, sysvar::A::B
+const referenceKey = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('$') || /^\w+\.\w+$/.test(trimmed)) {
+    const real = parseRealSignal(trimmed);
+    return real ? `signal:${real.message ?? ''}.${real.signal}` : null;
+  }
+  const path = parseSysvarPath(trimmed);
+  return path ? `sysvar:${path.join('::')}` : null;
+};
+
+const buildReferenceTable = (mappings: SignalMapping[]): Map<string, string> => {
+  const table = new Map<string, string>();
+  mappings
+    .filter(m => m.kind !== 'call' && !isPatternRule(m.realSignal) && !isPatternRule(m.simSignal))
+    .forEach((m) => {
+      [m.realSignal, m.simSignal].forEach((side) => {
+        const key = referenceKey(side);
+        if (key && !table.has(key)) table.set(key, m.id);
+      });
+    });
+  return table;
+};
+
+/**
+ * Comparison units of a CAPL file: significant tokens with mapped
+ * references collapsed to one unit per rule, so that replacing a signal by
+ * its mapped sysvar (in any access syntax) compares equal.
+ */
+const toUnits = (code: string, table: Map<string, string>): Unit[] => {
+  const { tokens, setterClose } = mergeAccessorCalls(significantTokens(tokenizeCapl(code)));
+  const skip = new Set(setterClose.values());
+  const units: Unit[] = [];
+  const push = (first: CaplToken, last: CaplToken, key: string, ruleId?: string) => {
+    const text = code.slice(first.start, last.end);
+    units.push({
+      key, ruleId, kind: first.kind, text, start: first.start, end: last.end, line: first.line, endLine: first.line + text.split('\n').length - 1,
+    });
+  };
+  const pushReference = (first: CaplToken, last: CaplToken, reference: string) => {
+    const key = referenceKey(reference);
+    const ruleId = key ? table.get(key) : undefined;
+    push(first, last, ruleId ? `rule:${ruleId}` : key ?? tokenKey(first), ruleId);
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (skip.has(i)) continue; // ")" of a setter call, see below
+    const handler = tokens[i - 1]?.kind === 'identifier' && tokens[i - 2]?.text === 'on' ? tokens[i - 1].text : '';
+
+    if (t.kind === 'identifier' && t.text === 'on' && HANDLER_KINDS[tokens[i + 1]?.text]) {
+      push(t, tokens[i + 1], `handler:${HANDLER_KINDS[tokens[i + 1].text]}`);
+      i++;
+    } else if (t.kind === 'identifier' && HANDLER_KINDS[handler]) {
+      pushReference(t, t, handler.startsWith('signal') ? `$${t.text}` : `sysvar::${t.text}`);
+    } else if (t.text === 'this' || t.text === '@this') {
+      push(t, t, 'this');
+    } else if (t.kind === 'signal' || t.kind === 'sysvar') {
+      pushReference(t, t, t.text);
+      // sysSetVariable*("A", "B", v) reads like "sysvar::A::B = v"
+      if (setterClose.has(i)) units.push({ ...units[units.length - 1], key: 'operator:=', ruleId: undefined, text: '' });
+    } else if (t.kind === 'identifier' && isOp(tokens[i + 1], '.') && tokens[i + 2]?.kind === 'identifier'
+      && table.has(referenceKey(`${t.text}.${tokens[i + 2].text}`) ?? '')) {
+      pushReference(t, tokens[i + 2], `${t.text}.${tokens[i + 2].text}`);
+      i += 2;
+    } else {
+      push(t, t, tokenKey(t));
+    }
+  }
+  return units;
+};
+
+const describeGap = (removed: Unit[], added: Unit[], callRule?: SignalMapping): Pick<AiEdit, 'kind' | 'description'> => {
+  const quote = (units: Unit[]) => {
+    const text = units.map(u => u.text).join(' ').replace(/\s+/g, ' ');
+    return `'${text.length > 60 ? `${text.slice(0, 57)}...` : text}'`;
+  };
+  if (callRule) return { kind: 'call', description: `Call rewritten by rule ${callRule.id}; check the arguments` };
+  if ([...removed, ...added].every(u => u.kind === 'comment')) {
+    return {
+      kind: 'comment',
+      description: added.length === 0 ? `Dropped comment ${quote(removed)}` : removed.length === 0 ? `Added comment ${quote(added)}` : 'Changed comment',
+    };
+  }
+  if (removed.length === 1 && added.length === 1) {
+    const [from, to] = [removed[0], added[0]];
+    if (from.ruleId || to.ruleId) {
+      return {
+        kind: 'signal',
+        description: from.ruleId
+          ? `${quote(removed)} (rule ${from.ruleId}) became ${quote(added)}${to.ruleId ? `, which belongs to rule ${to.ruleId}` : ', which is not its mapped counterpart'}`
+          : `${quote(removed)} became ${quote(added)} (rule ${to.ruleId}), but the rule does not map it`,
+      };
+    }
+    if (from.kind === 'identifier' && to.kind === 'identifier') {
+      return { kind: 'rename', description: `Renamed ${quote(removed)} to ${quote(added)}` };
+    }
+  }
+  if (added.length === 0) return { kind: 'logic', description: `Removed ${quote(removed)}` };
+  if (removed.length === 0) return { kind: 'logic', description: `Added ${quote(added)}` };
+  return { kind: 'logic', description: `Changed ${quote(removed)} to ${quote(added)}` };
+};
+
+// Call rule whose function names appear on opposite sides of a change
+const findCallRule = (removed: Unit[], added: Unit[], mappings: SignalMapping[]): SignalMapping | undefined => {
+  const names = (units: Unit[]) => new Set(units.filter(u => u.kind === 'identifier' || u.kind === 'sysvar').map(u => u.text));
+  const [before, after] = [names(removed), names(added)];
+  return mappings.find((m) => {
+    if (m.kind !== 'call') return false;
+    const [real, sim] = [parseCallTemplate(m.realSignal)?.name, parseCallTemplate(m.simSignal)?.name];
+    return !!real && !!sim && ((before.has(real) && after.has(sim)) || (before.has(sim) && after.has(real)));
+  });
+};
+
+/**
+ * Grows a range to whole lines on both sides, and until every equal unit
+ * inside has its counterpart inside too, so the two sides can be swapped.
+ */
+const expandRange = (range: UnitRange, a: Unit[], b: Unit[], partnerA: Int32Array, partnerB: Int32Array): UnitRange => {
+  let { a0, a1, b0, b1 } = range;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    while (a0 > 0 && a0 < a.length && a[a0 - 1].endLine >= a[a0].line) a0--;
+    while (b0 > 0 && b0 < b.length && b[b0 - 1].endLine >= b[b0].line) b0--;
+    while (a1 > 0 && a1 < a.length && a[a1].line <= a[a1 - 1].endLine) a1++;
+    while (b1 > 0 && b1 < b.length && b[b1].line <= b[b1 - 1].endLine) b1++;
+    for (let i = a0; i < a1; i++) {
+      const p = partnerA[i];
+      if (p >= 0 && p < b0) [b0, changed] = [p, true];
+      if (p >= b1) [b1, changed] = [p + 1, true];
+    }
+    for (let j = b0; j < b1; j++) {
+      const p = partnerB[j];
+      if (p >= 0 && p < a0) [a0, changed] = [p, true];
+      if (p >= a1) [a1, changed] = [p + 1, true];
+    }
+  }
+  return { a0, a1, b0, b1 };
+};
+
+const lineStart = (code: string, offset: number) => code.lastIndexOf('\n', offset - 1) + 1;
+
+// Whole lines covering units [from, to) plus the blank lines after them, or the empty span at `fallback`
+const lineSpan = (code: string, units: Unit[], from: number, to: number, fallback: number): [number, number] => {
+  if (from >= to) return [fallback, fallback];
+  return [lineStart(code, units[from].start), to < units.length ? lineStart(code, units[to].start) : code.length];
+};
+
+/**
+ * Compares an AI refactoring with its source token by token. Replacing a
+ * mapped reference with its counterpart (in any access syntax) is expected;
+ * every other difference is listed with a description. Edits are grouped
+ * into hunks of whole lines that can be accepted one by one.
+ */
+export const checkAiRefactor = (original: string, aiCode: string, mappings: SignalMapping[]): AiGuardResult => {
+  const table = buildReferenceTable(mappings);
+  const a = toUnits(original, table);
+  const b = toUnits(aiCode, table);
+  // Without an alignment, the whole file is one edit
+  const pairs = matchSequences(a.map(u => u.key), b.map(u => u.key), MAX_EDITS) ?? [];
+  const partnerA = new Int32Array(a.length).fill(-1);
+  const partnerB = new Int32Array(b.length).fill(-1);
+  pairs.forEach(([x, y]) => {
+    partnerA[x] = y;
+    partnerB[y] = x;
+  });
+
+  const changes: { edit: AiEdit; range: UnitRange }[] = [];
+  const unconverted: AiGuardResult['unconverted'] = [];
+  let [ai, bi] = [0, 0];
+
+  const addGap = (aTo: number, bTo: number) => {
+    if (ai === aTo && bi === bTo) return;
+    const removed = a.slice(ai, aTo);
+    const added = b.slice(bi, bTo);
+    // A pure insertion or removal is anchored at the equal unit before it (or after it, at the top)
+    const anchor = ai > 0 && bi > 0 ? -1 : aTo < a.length && bTo < b.length ? 1 : 0;
+    changes.push({
+      edit: {
+        ...describeGap(removed, added, findCallRule(removed, added, mappings)),
+        line: removed[0]?.line ?? (ai > 0 ? a[ai - 1].endLine : a[aTo]?.line ?? 1),
+        aiLine: added[0]?.line ?? (bi > 0 ? b[bi - 1].endLine : b[bTo]?.line ?? 1),
+      },
+      range: {
+        a0: anchor < 0 ? ai - 1 : ai,
+        a1: anchor > 0 ? aTo + 1 : aTo,
+        b0: anchor < 0 ? bi - 1 : bi,
+        b1: anchor > 0 ? bTo + 1 : bTo,
+      },
+    });
+  };
+
+  pairs.forEach(([x, y]) => {
+    addGap(x, y);
+    const [from, to] = [a[x], b[y]];
+    if (from.ruleId && from.text !== to.text) {
+      changes.push({
+        edit: { kind: 'mapped', description: `Rule ${from.ruleId}: ${from.text} -> ${to.text}`, line: from.line, aiLine: to.line },
+        range: { a0: x, a1: x + 1, b0: y, b1: y + 1 },
+      });
+    } else if (from.ruleId && to.text) {
+      unconverted.push({ line: to.line, text: to.text });
+    }
+    [ai, bi] = [x + 1, y + 1];
+  });
+  addGap(a.length, b.length);
+
+  // Merge changes whose line ranges touch
+  const groups: { edits: AiEdit[]; range: UnitRange }[] = [];
+  changes.forEach(({ edit, range }) => {
+    const expanded = expandRange(range, a, b, partnerA, partnerB);
+    const last = groups[groups.length - 1];
+    if (last && (expanded.a0 < last.range.a1 || expanded.b0 < last.range.b1)) {
+      last.edits.push(edit);
+      last.range = expandRange({
+        a0: Math.min(last.range.a0, expanded.a0),
+        a1: Math.max(last.range.a1, expanded.a1),
+        b0: Math.min(last.range.b0, expanded.b0),
+        b1: Math.max(last.range.b1, expanded.b1),
+      }, a, b, partnerA, partnerB);
+    } else {
+      groups.push({ edits: [edit], range: expanded });
+    }
+  });
+
+  let previousEnd = 0;
+  let previousAiEnd = 0;
+  const hunks = groups.map(({ edits, range }): AiHunk => {
+    const [start, end] = lineSpan(original, a, range.a0, range.a1, previousEnd);
+    const [aiStart, aiEnd] = lineSpan(aiCode, b, range.b0, range.b1, previousAiEnd);
+    [previousEnd, previousAiEnd] = [end, aiEnd];
+    return {
+      edits,
+      expected: edits.every(isExpectedEdit),
+      start,
+      end,
+      original: original.slice(start, end),
+      replacement: aiCode.slice(aiStart, aiEnd),
+      line: original.slice(0, start).split('\n').length,
+      aiLine: aiCode.slice(0, aiStart).split('\n').length,
+    };
+  });
+
+  const unexpected = changes.filter(c => !isExpectedEdit(c.edit)).length;
+  return { hunks, unexpected, unconverted };
+};
+
+/**
+ * The original with the accepted hunks applied.
+ */
+export const applyAiHunks = (original: string, hunks: AiHunk[], accepted: boolean[]): string => {
+  let result = '';
+  let cursor = 0;
+  hunks.forEach((hunk, i) => {
+    if (!accepted[i]) return;
+    result += original.slice(cursor, hunk.start) + hunk.replacement;
+    cursor = hunk.end;
+  });
+  return result + original.slice(cursor);
+};
+
+/**
+ * Terminal-friendly summary of a guard check.
+ */
+export const formatAiGuardResult = (result: AiGuardResult): string => {
+  const edits = result.hunks.flatMap(h => h.edits);
+  const lines = [`AI result: ${edits.length - result.unexpected} mapped replacement(s), ${result.unexpected} other edit(s) in ${result.hunks.length} hunk(s).`];
+  edits
+    .filter(e => !isExpectedEdit(e))
+    .forEach(e => lines.push(`  L${e.line} [${e.kind}] ${e.description}`));
+  if (result.unconverted.length > 0) {
+    lines.push(`  ${result.unconverted.length} mapped reference(s) left unconverted: ${result.unconverted.map(u => `L${u.line} ${u.text}`).join(', ')}`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,217 @@
+import { CaplToken, SignalMapping, TestMode } from "../types";
+import { significantTokens, tokenKey, tokenizeCapl } from "./caplLexer";
+import { findClosing } from "./sysvarAccess";
+import { parseSysvarPath } from "./vsysvar";
+
+type ArgPattern =
+  | { kind: 'capture'; name: string }                  // $m  -> any argument
+  | { kind: 'string'; regex: RegExp; names: string[] } // "$ns" -> string literal, content captured
+  | { kind: 'literal'; keys: string[] };               // anything else must match token by token
+
+export interface CompiledCallRule {
+  mapping: SignalMapping;
+  name: string;            // function name to match
+  args: ArgPattern[];      // one per parameter; arity must match
+  target: string;          // template for the replacement
+  variables: Set<string>;  // placeholder names known to this rule
+}
+
+export interface CallMatch {
+  captures: Record<string, string>;   // raw argument text / string content
+  argRanges: Record<string, [number, number]>; // capture name -> token range [from, to)
+  closeIndex: number;                 // index of the closing ")"
+}
+
+const PLACEHOLDER = /\$(\w+)/g;
+const isOp = (t: CaplToken | undefined, text: string) => !!t && t.kind === 'operator' && t.text === text;
+
+/**
+ * Splits the arguments of a call whose "(" is at `open` and ")" at `close`
+ * into token index ranges. Returns [] for an empty argument list.
+ */
+export const splitCallArguments = (tokens: CaplToken[], open: number, close: number): [number, number][] => {
+  if (close === open + 1) return [];
+  const ranges: [number, number][] = [];
+  let depth = 0;
+  let start = open + 1;
+  for (let k = open + 1; k < close; k++) {
+    const t = tokens[k];
+    if (t.kind !== 'operator') continue;
+    if (['(', '[', '{'].includes(t.text)) depth++;
+    else if ([')', ']', '}'].includes(t.text)) depth--;
+    else if (t.text === ',' && depth === 0) {
+      ranges.push([start, k]);
+      start = k + 1;
+    }
+  }
+  ranges.push([start, close]);
+  return ranges;
+};
+
+/**
+ * Parses a call template like `output($m)` into its name and argument texts.
+ */
+export const parseCallTemplate = (text: string): { name: string; args: CaplToken[][] } | null => {
+  const tokens = significantTokens(tokenizeCapl(text)).filter(t => t.kind !== 'comment');
+  const [name, open] = tokens;
+  if (!name || (name.kind !== 'identifier' && name.kind !== 'sysvar') || !isOp(open, '(')) return null;
+  const close = findClosing(tokens, 1);
+  if (close !== tokens.length - 1 || !isOp(tokens[close], ')')) return null;
+  return { name: name.text, args: splitCallArguments(tokens, 1, close).map(([a, b]) => tokens.slice(a, b)) };
+};
+
+// Placeholder names used in argument positions of either side of the rule
+const ruleVariables = (mapping: SignalMapping): Set<string> => {
+  const names = new Set<string>(['ns', 'var']);
+  [mapping.realSignal, mapping.simSignal].forEach((side) => {
+    parseCallTemplate(side)?.args.forEach((arg) => {
+      if (arg.length !== 1) return;
+      const text = arg[0].kind === 'string' ? arg[0].text.slice(1, -1) : arg[0].text;
+      for (const m of text.matchAll(PLACEHOLDER)) names.add(m[1]);
+    });
+  });
+  return names;
+};
+
+/**
+ * Compiles a `kind: 'call'` rule for one direction, or null if its source
+ * side is not a valid call template.
+ */
+export const compileCallRule = (mapping: SignalMapping, mode: TestMode): CompiledCallRule | null => {
+  const source = mode === TestMode.SIL ? mapping.realSignal : mapping.simSignal;
+  const target = mode === TestMode.SIL ? mapping.simSignal : mapping.realSignal;
+  const parsed = source && target ? parseCallTemplate(source) : null;
+  if (!parsed || !parseCallTemplate(target)) return null;
+
+  const variables = ruleVariables(mapping);
+  const args = parsed.args.map((arg): ArgPattern => {
+    const only = arg.length === 1 ? arg[0] : undefined;
+    if (only?.kind === 'signal' && variables.has(only.text.slice(1))) {
+      return { kind: 'capture', name: only.text.slice(1) };
+    }
+    if (only?.kind === 'string' && /\$\w+/.test(only.text)) {
+      const names: string[] = [];
+      const body = only.text.slice(1, -1)
+        .split(PLACEHOLDER)
+        .map((part, k) => {
+          if (k % 2 === 1) {
+            names.push(part);
+            return '(.*?)';
+          }
+          return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+      return { kind: 'string', regex: new RegExp(`^"${body}"$`), names };
+    }
+    return { kind: 'literal', keys: arg.map(tokenKey) };
+  });
+
+  return { mapping, name: parsed.name, args, target, variables };
+};
+
+/**
+ * Matches a call rule at token `i` (the function name).
+ */
+export const matchCall = (tokens: CaplToken[], i: number, rule: CompiledCallRule): CallMatch | null => {
+  const nameToken = tokens[i];
+  if (!nameToken || nameToken.text !== rule.name || !isOp(tokens[i + 1], '(')) return null;
+  if (isOp(tokens[i - 1], '.')) return null;
+
+  const closeIndex = findClosing(tokens, i + 1);
+  const ranges = splitCallArguments(tokens, i + 1, closeIndex);
+  if (ranges.length !== rule.args.length) return null;
+
+  const captures: Record<string, string> = {};
+  const argRanges: Record<string, [number, number]> = {};
+  const assign = (name: string, value: string) => {
+    if (name in captures && captures[name] !== value) return false;
+    captures[name] = value;
+    return true;
+  };
+
+  for (let k = 0; k < ranges.length; k++) {
+    const [from, to] = ranges[k];
+    const pattern = rule.args[k];
+    const argTokens = tokens.slice(from, to);
+    if (argTokens.length === 0) return null;
+    const text = argTokens.map(t => t.text).join(' ');
+
+    if (pattern.kind === 'capture') {
+      if (!assign(pattern.name, text)) return null;
+      argRanges[pattern.name] = [from, to];
+    } else if (pattern.kind === 'string') {
+      const m = argTokens.length === 1 && argTokens[0].kind === 'string' ? pattern.regex.exec(argTokens[0].text) : null;
+      if (!m || !pattern.names.every((name, g) => assign(name, m[g + 1]))) return null;
+    } else if (argTokens.length !== pattern.keys.length || argTokens.some((t, j) => tokenKey(t) !== pattern.keys[j])) {
+      return null;
+    }
+  }
+
+  return { captures, argRanges, closeIndex };
+};
+
+const sameTokens = (a: string, b: string) => {
+  const ka = significantTokens(tokenizeCapl(a)).map(tokenKey);
+  const kb = significantTokens(tokenizeCapl(b)).map(tokenKey);
+  return ka.length === kb.length && ka.every((k, i) => k === kb[i]);
+};
+
+/**
+ * Fills in placeholders the target needs but the source did not capture:
+ * `$ns` / `$var` from a captured argument that is a mapped signal, and any
+ * other placeholder from the rule that maps to `ns::var`. Returns the name
+ * of the first placeholder that cannot be resolved, if any.
+ */
+export const resolveCallVariables = (
+  rule: CompiledCallRule,
+  captures: Record<string, string>,
+  mode: TestMode,
+  mappings: SignalMapping[]
+): { values: Record<string, string>; missing?: string } => {
+  const values = { ...captures };
+  const signalRules = mappings.filter(m => m.kind !== 'call');
+  const needed = [...rule.target.matchAll(PLACEHOLDER)].map(m => m[1]).filter(n => rule.variables.has(n));
+
+  if (needed.some(n => (n === 'ns' || n === 'var') && !(n in values))) {
+    for (const value of Object.values(captures)) {
+      const match = signalRules.find(m => sameTokens(value, m.realSignal) || sameTokens(value, m.simSignal));
+      const path = match && parseSysvarPath(match.simSignal);
+      if (path) {
+        values.ns ??= path.slice(0, -1).join('::');
+        values.var ??= path[path.length - 1];
+        break;
+      }
+    }
+  }
+
+  for (const name of needed) {
+    if (name in values) continue;
+    if (name !== 'ns' && name !== 'var' && values.ns && values.var) {
+      const path = `${values.ns}::${values.var}`;
+      const match = signalRules.find(m => parseSysvarPath(m.simSignal)?.join('::') === path);
+      if (match) {
+        values[name] = mode === TestMode.SIL ? `sysvar::${path}` : match.realSignal;
+        continue;
+      }
+    }
+    return { values, missing: name };
+  }
+
+  return { values };
+};
+
+/**
+ * Splits a target template into literal text and placeholder parts.
+ */
+export const splitTemplate = (template: string, variables: Set<string>): { text: string; placeholder?: string }[] => {
+  const parts: { text: string; placeholder?: string }[] = [];
+  let last = 0;
+  for (const m of template.matchAll(PLACEHOLDER)) {
+    if (!variables.has(m[1])) continue;
+    if (m.index! > last) parts.push({ text: template.slice(last, m.index) });
+    parts.push({ text: m[0], placeholder: m[1] });
+    last = m.index! + m[0].length;
+  }
+  if (last < template.length) parts.push({ text: template.slice(last) });
+  return parts;
+};
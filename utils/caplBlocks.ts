@@ -0,0 +1,64 @@
+import { CaplToken } from "../types";
+import { significantTokens } from "./caplLexer";
+
+export interface CaplBlock {
+  header: string;          // e.g. "on timer tCheck", "variables", "void Reset()"
+  isEventHandler: boolean; // header starts with "on"
+  headerStart: number;     // offset of the first header token
+  bodyStart: number;       // offset of the opening "{"
+  end: number;             // offset just past the closing "}"
+}
+
+const isComment = (t: CaplToken) => t.kind === 'comment';
+
+/**
+ * Finds the top-level blocks of a CAPL file: event handlers, functions and
+ * the `includes` / `variables` sections.
+ */
+export const findTopLevelBlocks = (tokens: CaplToken[]): CaplBlock[] => {
+  const blocks: CaplBlock[] = [];
+  const code = significantTokens(tokens).filter(t => !isComment(t));
+
+  let depth = 0;
+  let headerTokens: CaplToken[] = [];
+  let open: { header: CaplToken[]; bodyStart: number } | null = null;
+
+  code.forEach((token) => {
+    const isOp = token.kind === 'operator';
+    if (isOp && token.text === '{') {
+      if (depth === 0) {
+        open = { header: headerTokens, bodyStart: token.start };
+        headerTokens = [];
+      }
+      depth++;
+    } else if (isOp && token.text === '}') {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0 && open) {
+        const header = open.header.map(t => t.text).join(' ')
+          .replace(/\s*([(),])\s*/g, (_, p: string) => (p === ',' ? ', ' : p));
+        blocks.push({
+          header,
+          isEventHandler: open.header[0]?.text === 'on',
+          headerStart: open.header[0]?.start ?? open.bodyStart,
+          bodyStart: open.bodyStart,
+          end: token.end,
+        });
+        open = null;
+      }
+    } else if (depth === 0) {
+      if (isOp && token.text === ';') {
+        headerTokens = [];
+      } else {
+        headerTokens.push(token);
+      }
+    }
+  });
+
+  return blocks;
+};
+
+/**
+ * Returns the top-level block that contains the given offset, if any.
+ */
+export const findEnclosingBlock = (blocks: CaplBlock[], offset: number): CaplBlock | undefined =>
+  blocks.find(b => offset >= b.headerStart && offset < b.end);
@@ -0,0 +1,109 @@
+import { CaplToken, CaplTokenKind } from "../types";
+
+// Longest operators first so that e.g. "<<=" wins over "<<" and "<".
+const OPERATORS = [
+  '<<=', '>>=',
+  '==', '!=', '<=', '>=', '&&', '||', '++', '--', '+=', '-=', '*=', '/=', '%=',
+  '&=', '|=', '^=', '<<', '>>', '->', '::',
+];
+
+const isIdentStart = (ch: string) => /[A-Za-z_]/.test(ch);
+const isIdentPart = (ch: string) => /[A-Za-z0-9_]/.test(ch);
+
+/**
+ * Splits CAPL source into tokens. Every character of the input belongs to
+ * exactly one token, so joining the token texts reproduces the source.
+ */
+export const tokenizeCapl = (code: string): CaplToken[] => {
+  const tokens: CaplToken[] = [];
+  let pos = 0;
+  let line = 1;
+  let column = 1;
+
+  const push = (kind: CaplTokenKind, end: number) => {
+    const text = code.slice(pos, end);
+    tokens.push({ kind, text, start: pos, end, line, column });
+    for (const ch of text) {
+      if (ch === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    pos = end;
+  };
+
+  // Reads `ident(::ident)*` starting at `from`, returns the end offset
+  const readScopedName = (from: number): number => {
+    let end = from;
+    while (end < code.length && isIdentPart(code[end])) end++;
+    while (code.startsWith('::', end) && isIdentStart(code[end + 2] ?? '')) {
+      end += 2;
+      while (end < code.length && isIdentPart(code[end])) end++;
+    }
+    return end;
+  };
+
+  const readQuoted = (quote: string): number => {
+    let end = pos + 1;
+    while (end < code.length && code[end] !== quote && code[end] !== '\n') {
+      end += code[end] === '\\' ? 2 : 1;
+    }
+    return Math.min(end + 1, code.length);
+  };
+
+  while (pos < code.length) {
+    const ch = code[pos];
+    const next = code[pos + 1] ?? '';
+
+    if (/\s/.test(ch)) {
+      let end = pos + 1;
+      while (end < code.length && /\s/.test(code[end])) end++;
+      push('whitespace', end);
+    } else if (ch === '/' && next === '/') {
+      const nl = code.indexOf('\n', pos);
+      push('comment', nl === -1 ? code.length : nl);
+    } else if (ch === '/' && next === '*') {
+      const close = code.indexOf('*/', pos + 2);
+      push('comment', close === -1 ? code.length : close + 2);
+    } else if (ch === '"') {
+      push('string', readQuoted('"'));
+    } else if (ch === "'") {
+      push('char', readQuoted("'"));
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next))) {
+      const match = /^(0[xX][0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/.exec(code.slice(pos));
+      push('number', pos + (match ? match[0].length : 1));
+    } else if (ch === '$' && isIdentStart(next)) {
+      push('signal', readScopedName(pos + 1));
+    } else if (ch === '@' && isIdentStart(next)) {
+      push('sysvar', readScopedName(pos + 1));
+    } else if (isIdentStart(ch)) {
+      const end = readScopedName(pos);
+      const text = code.slice(pos, end);
+      push(text.startsWith('sysvar::') ? 'sysvar' : 'identifier', end);
+    } else {
+      const op = OPERATORS.find(o => code.startsWith(o, pos));
+      push('operator', pos + (op ? op.length : 1));
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Tokens that carry meaning for matching (everything except whitespace).
+ */
+export const significantTokens = (tokens: CaplToken[]): CaplToken[] =>
+  tokens.filter(t => t.kind !== 'whitespace');
+
+/**
+ * Normalized identity of a token. System variables compare equal regardless
+ * of the access prefix: "@Engine::Speed", "@sysvar::Engine::Speed" and
+ * "sysvar::Engine::Speed" all refer to the same variable.
+ */
+export const tokenKey = (token: CaplToken): string => {
+  if (token.kind !== 'sysvar') return `${token.kind}:${token.text}`;
+  const name = token.text.replace(/^@/, '');
+  return `sysvar:${name.startsWith('sysvar::') ? name : `sysvar::${name}`}`;
+};
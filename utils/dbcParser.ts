@@ -0,0 +1,163 @@
+import { SignalMapping } from "../types";
+
+export interface DbcSignal {
+  name: string;
+  multiplexer?: string; // "M" or "m<n>"
+  startBit: number;
+  length: number;
+  byteOrder: 'intel' | 'motorola';
+  isSigned: boolean;
+  factor: number;
+  offset: number;
+  min: number;
+  max: number;
+  unit: string;
+  receivers: string[];
+  initialValue?: number; // physical, from GenSigStartValue
+  valueTable?: Record<string, string>;
+}
+
+export interface DbcMessage {
+  id: number; // as written in the file; bit 31 marks extended frames
+  name: string;
+  dlc: number;
+  transmitter: string;
+  signals: DbcSignal[];
+}
+
+export interface DbcDatabase {
+  messages: DbcMessage[];
+  valueTables: Record<string, Record<string, string>>; // VAL_TABLE_ definitions
+  warnings: string[]; // e.g. start values outside [min, max]
+}
+
+export type DbcSignalStyle = 'message' | 'dollar'; // "Msg.Signal" or "$Signal"
+
+const BO_REGEX = /^BO_\s+(\d+)\s+(\w+)\s*:\s*(\d+)\s+(\w+)/;
+const SG_REGEX = /^SG_\s+(\w+)\s*(M|m\d+M?)?\s*:\s*(\d+)\|(\d+)@([01])([+-])\s*\(\s*([^,]+),\s*([^)]+)\)\s*\[\s*([^|]+)\|([^\]]+)\]\s*"([^"]*)"\s*(.*)$/;
+const VAL_REGEX = /VAL_\s+(\d+)\s+(\w+)\s+((?:-?\d+\s+"[^"]*"\s*)*);/g;
+const VAL_TABLE_REGEX = /VAL_TABLE_\s+(\w+)\s+((?:-?\d+\s+"[^"]*"\s*)*);/g;
+const START_VALUE_REGEX = /BA_\s+"GenSigStartValue"\s+SG_\s+(\d+)\s+(\w+)\s+(-?[\d.eE+-]+)\s*;/g;
+// Signal types name their value table after the default value: SGTYPE_ T : 8@1+ (1,0) [0|3] "" 0 , Table ;
+const SGTYPE_REGEX = /SGTYPE_\s+(\w+)\s*:[^;]*?,\s*(\w+)\s*;/g;
+const SIG_TYPE_REF_REGEX = /SIG_TYPE_REF_\s+(\d+)\s+(\w+)\s*:\s*(\w+)\s*;/g;
+
+const parseValueDescriptions = (text: string): Record<string, string> => {
+  const table: Record<string, string> = {};
+  const entry = /(-?\d+)\s+"([^"]*)"/g;
+  let m: RegExpExecArray | null;
+  while ((m = entry.exec(text)) !== null) {
+    table[m[1]] = m[2];
+  }
+  return table;
+};
+
+/**
+ * Parses the message/signal part of a Vector DBC file: BO_ and SG_ lines,
+ * VAL_ / VAL_TABLE_ value descriptions (tables reach signals through
+ * SGTYPE_ / SIG_TYPE_REF_) and GenSigStartValue attributes.
+ */
+export const parseDbc = (content: string): DbcDatabase => {
+  const messages: DbcMessage[] = [];
+  let current: DbcMessage | null = null;
+
+  content.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    const bo = BO_REGEX.exec(line);
+    if (bo) {
+      current = { id: Number(bo[1]), name: bo[2], dlc: Number(bo[3]), transmitter: bo[4], signals: [] };
+      messages.push(current);
+      return;
+    }
+
+    const sg = SG_REGEX.exec(line);
+    if (sg && current) {
+      current.signals.push({
+        name: sg[1],
+        multiplexer: sg[2],
+        startBit: Number(sg[3]),
+        length: Number(sg[4]),
+        byteOrder: sg[5] === '1' ? 'intel' : 'motorola',
+        isSigned: sg[6] === '-',
+        factor: Number(sg[7]),
+        offset: Number(sg[8]),
+        min: Number(sg[9]),
+        max: Number(sg[10]),
+        unit: sg[11],
+        receivers: sg[12].split(/[\s,]+/).filter(Boolean),
+      });
+      return;
+    }
+
+    // Any other statement ends the signal list of the current message
+    if (line && !line.startsWith('SG_')) {
+      current = null;
+    }
+  });
+
+  const findSignal = (msgId: string, name: string) =>
+    messages.find(m => m.id === Number(msgId))?.signals.find(s => s.name === name);
+
+  let m: RegExpExecArray | null;
+  while ((m = VAL_REGEX.exec(content)) !== null) {
+    const signal = findSignal(m[1], m[2]);
+    if (signal) signal.valueTable = parseValueDescriptions(m[3]);
+  }
+
+  const valueTables: DbcDatabase['valueTables'] = {};
+  while ((m = VAL_TABLE_REGEX.exec(content)) !== null) {
+    valueTables[m[1]] = parseValueDescriptions(m[2]);
+  }
+
+  // Signals without their own VAL_ use the value table of their signal type
+  const typeTables: Record<string, string> = {};
+  while ((m = SGTYPE_REGEX.exec(content)) !== null) {
+    typeTables[m[1]] = m[2];
+  }
+  while ((m = SIG_TYPE_REF_REGEX.exec(content)) !== null) {
+    const signal = findSignal(m[1], m[2]);
+    const table = valueTables[typeTables[m[3]]];
+    if (signal && table && !signal.valueTable) signal.valueTable = { ...table };
+  }
+
+  const warnings: string[] = [];
+  while ((m = START_VALUE_REGEX.exec(content)) !== null) {
+    const signal = findSignal(m[1], m[2]);
+    if (!signal) continue;
+    const value = Number(m[3]) * signal.factor + signal.offset;
+    // [0|0] means "no range" in DBC files
+    const clamped = signal.min < signal.max ? Math.min(signal.max, Math.max(signal.min, value)) : value;
+    if (clamped !== value) {
+      warnings.push(`Start value ${value} of ${m[2]} is outside [${signal.min}|${signal.max}]; clamped to ${clamped}.`);
+    }
+    signal.initialValue = clamped;
+  }
+
+  return { messages, valueTables, warnings };
+};
+
+const isIntegral = (n: number) => Number.isInteger(n);
+
+/**
+ * Creates one mapping per DBC signal, with a `sysvar::<Msg>::<Signal>`
+ * suggestion as the simulation target.
+ */
+export const createMappingsFromDbc = (db: DbcDatabase, style: DbcSignalStyle = 'message'): SignalMapping[] =>
+  db.messages.flatMap(msg => msg.signals.map((sig): SignalMapping => ({
+    id: `dbc_${msg.name}_${sig.name}`,
+    realSignal: style === 'dollar' ? `$${sig.name}` : `${msg.name}.${sig.name}`,
+    simSignal: `sysvar::${msg.name}::${sig.name}`,
+    description: [`${msg.name} (0x${(msg.id & 0x1FFFFFFF).toString(16).toUpperCase()})`, sig.unit && `[${sig.unit}]`]
+      .filter(Boolean)
+      .join(' '),
+    attributes: {
+      dataType: isIntegral(sig.factor) && isIntegral(sig.offset) ? 'int' : 'float',
+      unit: sig.unit || undefined,
+      factor: sig.factor,
+      offset: sig.offset,
+      min: sig.min,
+      max: sig.max,
+      initialValue: sig.initialValue,
+      valueTable: sig.valueTable,
+    },
+  })));
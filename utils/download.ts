@@ -0,0 +1,19 @@
+/**
+ * Triggers a browser download for a generated blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Triggers a browser download for generated text content.
+ */
+export const downloadTextFile = (content: string, filename: string, mimeType = 'text/plain') =>
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
@@ -0,0 +1,53 @@
+import { SignalAttributes } from "../types";
+
+/**
+ * Switch variable used when none is configured, e.g. "Env::IsSIL" when
+ * converting to SIL.
+ */
+export const defaultDualSwitch = (targetProfileId: string): string =>
+  `Env::Is${targetProfileId.replace(/\W+/g, '_')}`;
+
+export interface DualSetter {
+  name: string;      // e.g. "dualSet_Engine_Speed"
+  type: 'long' | 'float';
+  converted: string; // statement writing `value` in the target environment
+  original: string;  // statement writing `value` as in the source
+}
+
+export const dualSetterType = (attributes?: SignalAttributes): DualSetter['type'] =>
+  attributes?.dataType === 'int' ? 'long' : 'float';
+
+/**
+ * Identifier-safe setter name for a target, unique among `taken`.
+ */
+export const dualSetterName = (target: string, taken: Set<string>): string => {
+  const base = `dualSet_${target.replace(/^@?sysvar::/, '').replace(/^\$/, '').replace(/\W+/g, '_').replace(/^_+|_+$/g, '')}`;
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}_${n}`;
+  return name;
+};
+
+/**
+ * Read access that picks the variant at run time.
+ */
+export const dualRead = (switchRef: string, converted: string, original: string): string =>
+  `(${switchRef} ? ${converted} : ${original})`;
+
+/**
+ * Helper section appended to dual output: one setter per written signal,
+ * since a conditional expression cannot be assigned to.
+ */
+export const createDualSetters = (setters: DualSetter[], switchRef: string): string => {
+  if (setters.length === 0) return '';
+  const functions = setters.map(s => [
+    `void ${s.name}(${s.type} value)`,
+    '{',
+    `  if (${switchRef}) ${s.converted}`,
+    `  else ${s.original}`,
+    '}',
+  ].join('\n'));
+  return [
+    `/* Dual-mode setters: ${switchRef} selects the converted variant */`,
+    ...functions,
+  ].join('\n\n');
+};
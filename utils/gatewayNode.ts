@@ -0,0 +1,148 @@
+import { SignalMapping, SysvarAccessStyle } from "../types";
+import { parseRealSignal } from "./handlerTranslation";
+import { accessorArgs, accessorName } from "./sysvarAccess";
+import { isPatternRule } from "./transformer";
+import { parseSysvarPath } from "./vsysvar";
+
+// 'toSysvar' -> real signals are copied into their sysvars
+// 'toSignal' -> sysvars are copied onto the bus
+// 'both'     -> both, writing only values that differ so changes do not bounce
+export type GatewayDirection = 'toSysvar' | 'toSignal' | 'both';
+
+export interface GatewayOptions {
+  direction: GatewayDirection;
+  cycleMs: number; // 0: event handlers only
+  accessStyle: SysvarAccessStyle;
+}
+
+export const GATEWAY_DIRECTION_LABELS: Record<GatewayDirection, string> = {
+  toSysvar: 'real signals -> system variables',
+  toSignal: 'system variables -> real signals',
+  both: 'both directions',
+};
+
+export interface GatewayNodeResult {
+  code: string;
+  bridged: SignalMapping[];
+  skipped: { mapping: SignalMapping; reason: string }[];
+}
+
+interface Bridge {
+  mapping: SignalMapping;
+  signalHandler: string; // e.g. "EngineMsg::Speed"
+  signal: string;        // e.g. "$EngineMsg::Speed"
+  sysvarHandler: string; // e.g. "Engine::Speed"
+  readSysvar: string;
+  writeSysvar: (value: string) => string;
+}
+
+const TIMER = 'tGatewayCycle';
+
+const createBridge = (mapping: SignalMapping, style: SysvarAccessStyle): Bridge | string => {
+  if (mapping.kind === 'call') return 'call rules have no value to copy';
+  if (isPatternRule(mapping.realSignal) || isPatternRule(mapping.simSignal)) return 'pattern rules name no concrete signal';
+  const real = parseRealSignal(mapping.realSignal);
+  if (!real) return `'${mapping.realSignal}' is not a signal reference like $Signal or Msg.Signal`;
+  const path = parseSysvarPath(mapping.simSignal);
+  if (!path) return `'${mapping.simSignal}' is not a sysvar path like sysvar::A::B`;
+
+  // Msg.Signal only works on message variables; the bridge addresses the bus signal
+  const signal = mapping.realSignal.trim().startsWith('$')
+    ? mapping.realSignal.trim()
+    : `$${real.message}::${real.signal}`;
+  const useFunctions = (mapping.accessStyle ?? style) === 'function';
+  return {
+    mapping,
+    signalHandler: signal.slice(1),
+    signal,
+    sysvarHandler: path.join('::'),
+    readSysvar: useFunctions
+      ? `${accessorName('get', mapping.attributes)}(${accessorArgs(path)})`
+      : `@sysvar::${path.join('::')}`,
+    writeSysvar: value => useFunctions
+      ? `${accessorName('set', mapping.attributes)}(${accessorArgs(path)}, ${value});`
+      : `@sysvar::${path.join('::')} = ${value};`,
+  };
+};
+
+const toSysvar = (b: Bridge, guarded: boolean) => guarded
+  ? `if (${b.readSysvar} != ${b.signal}) ${b.writeSysvar(b.signal)}`
+  : b.writeSysvar(b.signal);
+
+const toSignal = (b: Bridge, guarded: boolean) => guarded
+  ? `if (${b.signal} != ${b.readSysvar}) ${b.signal} = ${b.readSysvar};`
+  : `${b.signal} = ${b.readSysvar};`;
+
+const block = (header: string, statements: string[]) => [header, '{', ...statements.map(s => `  ${s}`), '}'].join('\n');
+
+/**
+ * Builds a complete CANoe node (.can) that keeps real signals and their
+ * system variables in sync, so existing tests run unchanged in either
+ * environment. Only literal signal rules with a sysvar target can be
+ * bridged; the others are returned in `skipped`.
+ */
+export const createGatewayNode = (mappings: SignalMapping[], options: GatewayOptions, title = 'Signal gateway'): GatewayNodeResult => {
+  const bridges: Bridge[] = [];
+  const skipped: GatewayNodeResult['skipped'] = [];
+
+  mappings.forEach((mapping) => {
+    const bridge = createBridge(mapping, options.accessStyle);
+    if (typeof bridge === 'string') {
+      skipped.push({ mapping, reason: bridge });
+      return;
+    }
+    // CAPL allows one handler per signal/sysvar, and a second copy would fight the first
+    const clash = bridges.find(b => b.signalHandler === bridge.signalHandler || b.sysvarHandler === bridge.sysvarHandler);
+    if (clash) {
+      skipped.push({ mapping, reason: `${clash.signal} / ${clash.sysvarHandler} is already bridged by rule ${clash.mapping.id}` });
+      return;
+    }
+    bridges.push(bridge);
+  });
+
+  const { direction, cycleMs } = options;
+  const copiesToSysvar = direction !== 'toSignal';
+  const copiesToSignal = direction !== 'toSysvar';
+  const guarded = direction === 'both';
+  const cyclic = cycleMs > 0 && bridges.length > 0;
+  // Start-up and cyclic sync; bridging both ways, the real signals are the reference
+  const syncAll = copiesToSysvar
+    ? bridges.map(b => toSysvar(b, guarded))
+    : bridges.map(b => toSignal(b, guarded));
+
+  const sections = [
+    [
+      '/*',
+      ` * ${title}`,
+      ` * Generated by CAPL Signal Transformer on ${new Date().toISOString()}`,
+      ` * Direction: ${GATEWAY_DIRECTION_LABELS[direction]}${cyclic ? `, refreshed every ${cycleMs} ms` : ''}`,
+      ` * ${bridges.length} rule(s) bridged${skipped.length > 0 ? `, ${skipped.length} skipped` : ''}`,
+      ' */',
+    ].join('\n'),
+    block('includes', []),
+    block('variables', cyclic ? [`msTimer ${TIMER};`, `const int kGatewayCycleMs = ${cycleMs};`] : []),
+    block('on start', [
+      ...syncAll,
+      ...(cyclic ? [`setTimer(${TIMER}, kGatewayCycleMs);`] : []),
+    ]),
+    ...(copiesToSysvar ? bridges.map(b => block(`on signal ${b.signalHandler}`, [
+      `// Rule ${b.mapping.id}${b.mapping.description ? `: ${b.mapping.description}` : ''}`,
+      toSysvar(b, guarded),
+    ])) : []),
+    ...(copiesToSignal ? bridges.map(b => block(`on sysvar ${b.sysvarHandler}`, [
+      `// Rule ${b.mapping.id}${b.mapping.description ? `: ${b.mapping.description}` : ''}`,
+      toSignal(b, guarded),
+    ])) : []),
+    ...(cyclic ? [block(`on timer ${TIMER}`, [...syncAll, `setTimer(${TIMER}, kGatewayCycleMs);`])] : []),
+  ];
+
+  if (skipped.length > 0) {
+    sections.push([
+      '/* Skipped rules:',
+      ...skipped.map(s => ` *   ${s.mapping.id}: ${s.reason.replace(/\*\//g, '* /')}`),
+      ' */',
+    ].join('\n'));
+  }
+
+  return { code: sections.join('\n\n') + '\n', bridged: bridges.map(b => b.mapping), skipped };
+};
@@ -0,0 +1,167 @@
+import { CaplToken, SignalMapping, TestMode } from "../types";
+import { parseSysvarPath } from "./vsysvar";
+
+export interface HandlerTranslation {
+  header: string;        // rewritten header, e.g. "on sysvar Powertrain::Torque"
+  mappingIds: string[];  // rules the translation is based on
+  target: 'signal' | 'message' | 'sysvar' | 'namespace'; // what the new handler listens to
+  messageName?: string;  // original message of a SIL message handler, for this.<Signal>
+}
+
+export type HandlerTranslationResult =
+  | { translation: HandlerTranslation }
+  | { issue: string }
+  | null; // not a signal/message/sysvar handler
+
+// One-to-one in both directions, so that a round trip keeps the event kind
+const SIGNAL_TO_SYSVAR: Record<string, string> = {
+  signal: 'sysvar',
+  signal_change: 'sysvar_change',
+  signal_update: 'sysvar_update',
+};
+
+const SYSVAR_TO_SIGNAL: Record<string, string> = {
+  sysvar: 'signal',
+  sysvar_change: 'signal_change',
+  sysvar_update: 'signal_update',
+};
+
+/**
+ * Splits a real signal reference into message and signal name:
+ * "EngineMsg.Torque", "$EngineMsg::Torque", "$CAN1::EngineMsg::Torque" or
+ * "$Torque" (no message). Returns null for anything else.
+ */
+export const parseRealSignal = (text: string): { message?: string; signal: string } | null => {
+  const trimmed = text.trim();
+  const dotted = /^([A-Za-z_]\w*)\.([A-Za-z_]\w*)$/.exec(trimmed);
+  if (dotted) return { message: dotted[1], signal: dotted[2] };
+
+  const dollar = /^\$([A-Za-z_]\w*(?:::[A-Za-z_]\w*)*)$/.exec(trimmed);
+  if (!dollar) return null;
+  const parts = dollar[1].split('::');
+  return parts.length === 1
+    ? { signal: parts[0] }
+    : { message: parts[parts.length - 2], signal: parts[parts.length - 1] };
+};
+
+const isLiteral = (m: SignalMapping) => m.kind !== 'call' && !/\{\w+\}/.test(m.realSignal + m.simSignal);
+
+const translateToSil = (kind: string, target: CaplToken[], mappings: SignalMapping[]): HandlerTranslationResult => {
+  const name = target.map(t => t.text).join('');
+
+  if (kind === 'message') {
+    const last = target[target.length - 1];
+    if (!last || last.kind !== 'identifier') {
+      return { issue: `Message handler 'on message ${name}' cannot be translated (only named messages are supported)` };
+    }
+    const message = last.text.split('::').pop()!;
+    const rules = mappings.filter(m => isLiteral(m) && parseRealSignal(m.realSignal)?.message === message);
+    const namespaces = [...new Set(rules
+      .map(m => parseSysvarPath(m.simSignal))
+      .filter((p): p is string[] => !!p)
+      .map(p => p.slice(0, -1).join('::')))];
+
+    if (rules.length === 0 || namespaces.length === 0) {
+      return { issue: `No mapped sysvar signals for message '${message}'; 'on message ${name}' kept` };
+    }
+    if (namespaces.length > 1) {
+      return { issue: `Signals of message '${message}' map to different namespaces (${namespaces.join(', ')}); 'on message ${name}' kept` };
+    }
+    return {
+      translation: {
+        header: `on sysvar_update ${namespaces[0]}::*`,
+        mappingIds: rules.map(m => m.id),
+        target: 'namespace',
+        messageName: message,
+      },
+    };
+  }
+
+  const parts = name.split('::');
+  const signal = parts[parts.length - 1];
+  const message = parts.length > 1 ? parts[parts.length - 2] : undefined;
+  const candidates = mappings.filter((m) => {
+    const real = isLiteral(m) ? parseRealSignal(m.realSignal) : null;
+    return real && real.signal === signal && (!real.message || !message || real.message === message);
+  });
+  // Prefer a rule that names the same message
+  const rule = candidates.find(m => parseRealSignal(m.realSignal)?.message === message) ?? candidates[0];
+  if (!rule) {
+    return { issue: `No mapping for signal '${name}'; 'on ${kind} ${name}' kept` };
+  }
+  const path = parseSysvarPath(rule.simSignal);
+  if (path) {
+    return { translation: { header: `on ${SIGNAL_TO_SYSVAR[kind]} ${path.join('::')}`, mappingIds: [rule.id], target: 'sysvar' } };
+  }
+  // Signal to signal, e.g. between two benches with different channel names
+  const other = parseRealSignal(rule.simSignal);
+  if (other) {
+    const signal = other.message ? `${other.message}::${other.signal}` : other.signal;
+    return { translation: { header: `on ${kind} ${signal}`, mappingIds: [rule.id], target: 'signal' } };
+  }
+  return { issue: `Rule ${rule.id} does not map '${name}' to a sysvar; 'on ${kind} ${name}' kept` };
+};
+
+const translateToHil = (kind: string, target: CaplToken[], mappings: SignalMapping[]): HandlerTranslationResult => {
+  const name = target.map(t => t.text).join('');
+  const literal = mappings.filter(isLiteral);
+
+  // on sysvar_update Namespace::*
+  if (name.endsWith('::*')) {
+    const ns = name.slice(0, -3).replace(/^@/, '').replace(/^sysvar::/, '');
+    const rules = literal.filter(m => parseSysvarPath(m.simSignal)?.slice(0, -1).join('::') === ns);
+    const targetNamespaces = [...new Set(rules.map(m => parseSysvarPath(m.realSignal)?.slice(0, -1).join('::')))];
+    if (rules.length > 0 && targetNamespaces.length === 1 && targetNamespaces[0]) {
+      return { translation: { header: `on ${kind} ${targetNamespaces[0]}::*`, mappingIds: rules.map(m => m.id), target: 'sysvar' } };
+    }
+    const messages = [...new Set(rules.map(m => parseRealSignal(m.realSignal)?.message).filter((m): m is string => !!m))];
+    if (messages.length !== 1) {
+      return {
+        issue: messages.length === 0
+          ? `No message signals map into namespace '${ns}'; 'on ${kind} ${name}' kept`
+          : `Namespace '${ns}' maps to several messages (${messages.join(', ')}); 'on ${kind} ${name}' kept`,
+      };
+    }
+    return { translation: { header: `on message ${messages[0]}`, mappingIds: rules.map(m => m.id), target: 'message' } };
+  }
+
+  const path = parseSysvarPath(name);
+  const rule = path && literal.find(m => parseSysvarPath(m.simSignal)?.join('::') === path.join('::'));
+  if (!rule) {
+    return { issue: `No mapping for sysvar '${name}'; 'on ${kind} ${name}' kept` };
+  }
+  const real = parseRealSignal(rule.realSignal);
+  // Sysvar to sysvar, e.g. CANoe sysvars to the variables of an FMU model
+  const otherPath = real ? null : parseSysvarPath(rule.realSignal);
+  if (otherPath) {
+    return { translation: { header: `on ${kind} ${otherPath.join('::')}`, mappingIds: [rule.id], target: 'sysvar' } };
+  }
+  if (!real) {
+    return { issue: `Rule ${rule.id} does not map '${name}' to a signal; 'on ${kind} ${name}' kept` };
+  }
+  const signal = real.message ? `${real.message}::${real.signal}` : real.signal;
+  return { translation: { header: `on ${SYSVAR_TO_SIGNAL[kind]} ${signal}`, mappingIds: [rule.id], target: 'signal' } };
+};
+
+/**
+ * Translates an event handler header (`on signal ...`, `on message ...`,
+ * `on sysvar ...`) into the target environment. `headerTokens` starts with
+ * the `on` keyword and excludes comments.
+ */
+export const translateHandlerHeader = (
+  headerTokens: CaplToken[],
+  mode: TestMode,
+  mappings: SignalMapping[]
+): HandlerTranslationResult => {
+  const [on, kindToken, ...target] = headerTokens;
+  if (on?.text !== 'on' || !kindToken || target.length === 0) return null;
+  const kind = kindToken.text;
+
+  if (mode === TestMode.SIL && (kind === 'message' || kind in SIGNAL_TO_SYSVAR)) {
+    return translateToSil(kind, target, mappings);
+  }
+  if (mode === TestMode.HIL && kind in SYSVAR_TO_SIGNAL) {
+    return translateToHil(kind, target, mappings);
+  }
+  return null;
+};
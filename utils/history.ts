@@ -0,0 +1,69 @@
+// Steps kept before the oldest one is dropped
+export const MAX_HISTORY = 100;
+
+// Edits with the same label within this window form a single step
+export const COALESCE_MS = 1000;
+
+export interface HistoryEntry<T> {
+  label: string;     // what produced this state, e.g. "Loaded preset Body Control"
+  state: T;
+  timestamp: number; // ms since epoch
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+export const createHistory = <T>(state: T, label: string): History<T> => ({
+  past: [],
+  present: { label, state, timestamp: Date.now() },
+  future: [],
+});
+
+/**
+ * Replaces the state of the current step without adding a new one, e.g.
+ * when the output was recomputed or another project file was selected.
+ */
+export const amendHistory = <T>(history: History<T>, state: T): History<T> => ({
+  ...history,
+  present: { ...history.present, state },
+});
+
+/**
+ * Adds a step and drops the redo branch. With `coalesce`, a step with the
+ * same label as the current one (within COALESCE_MS) is updated instead,
+ * so typing a word is one step rather than one per key.
+ */
+export const pushHistory = <T>(history: History<T>, label: string, state: T, coalesce = false): History<T> => {
+  const now = Date.now();
+  const { present } = history;
+  if (coalesce && history.future.length === 0 && present.label === label && now - present.timestamp < COALESCE_MS) {
+    return { ...history, present: { label, state, timestamp: now } };
+  }
+  return {
+    past: [...history.past, present].slice(-(MAX_HISTORY - 1)),
+    present: { label, state, timestamp: now },
+    future: [],
+  };
+};
+
+/**
+ * All steps in order, oldest first; the current one is at `past.length`.
+ */
+export const historyEntries = <T>(history: History<T>): HistoryEntry<T>[] =>
+  [...history.past, history.present, ...history.future];
+
+/**
+ * Moves to any step; undo and redo are jumps by one.
+ */
+export const jumpHistory = <T>(history: History<T>, index: number): History<T> => {
+  const entries = historyEntries(history);
+  if (index < 0 || index >= entries.length || index === history.past.length) return history;
+  return {
+    past: entries.slice(0, index),
+    present: entries[index],
+    future: entries.slice(index + 1),
+  };
+};
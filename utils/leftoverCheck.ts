@@ -0,0 +1,70 @@
+import { SignalMapping, TestMode } from "../types";
+import { findSignalReferences, knownMessageNames, SignalReference } from "./signalScanner";
+import { parseSysvarPath } from "./vsysvar";
+
+export interface LeftoverCheckResult {
+  path: string;
+  leftovers: SignalReference[];
+}
+
+/**
+ * References in converted code that still belong to the source environment:
+ * real signals ($X, Msg.Sig) after a SIL conversion, sysvars after HIL.
+ * Between two profiles of the same kind (`sameKind`), references to a mapped
+ * source value are the leftovers instead.
+ */
+export const findLeftoverSignals = (output: string, mode: TestMode, mappings: SignalMapping[], sameKind = false): SignalReference[] => {
+  const refs = findSignalReferences(output, knownMessageNames(output, mappings));
+  if (!sameKind) return refs.filter(ref => (mode === TestMode.SIL ? ref.kind !== 'sysvar' : ref.kind === 'sysvar'));
+
+  const key = (text: string) => parseSysvarPath(text)?.join('::') ?? text.trim();
+  const sources = new Set(mappings
+    .filter(m => m.kind !== 'call')
+    .map(m => key(mode === TestMode.SIL ? m.realSignal : m.simSignal)));
+  return refs.filter(ref => sources.has(key(ref.text)));
+};
+
+/**
+ * What a leftover is called in messages, e.g. "real signal".
+ */
+export const leftoverKind = (mode: TestMode, sameKind = false): string =>
+  sameKind ? 'source' : mode === TestMode.SIL ? 'real signal' : 'sysvar';
+
+/**
+ * One human-readable line per leftover reference.
+ */
+export const formatLeftover = (ref: SignalReference): string =>
+  `  L${ref.line}:${ref.column}  ${ref.kind === 'sysvar' ? 'sysvar' : 'real signal'} ${ref.text}`;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * JUnit XML with one test case per file, failing when leftovers remain.
+ * Jenkins (junit step) and most CI servers display this natively.
+ * `target` is the profile converted to, `kind` names the leftovers.
+ */
+export const createJUnitXml = (results: LeftoverCheckResult[], target: string, kind: string): string => {
+  const failures = results.filter(r => r.leftovers.length > 0).length;
+  const classname = escapeXml(`capl.check.${target}`);
+  const cases = results.map((r) => {
+    const name = escapeXml(r.path);
+    if (r.leftovers.length === 0) return `    <testcase classname="${classname}" name="${name}"/>`;
+    const details = escapeXml(r.leftovers.map(formatLeftover).join('\n'));
+    return [
+      `    <testcase classname="${classname}" name="${name}">`,
+      `      <failure type="LeftoverSignal" message="${r.leftovers.length} ${kind} reference(s) left after ${escapeXml(target)} conversion">${details}</failure>`,
+      '    </testcase>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="capl-transformer" tests="${results.length}" failures="${failures}">`,
+    `  <testsuite name="${escapeXml(target)} leftover check" tests="${results.length}" failures="${failures}" errors="0" skipped="0" timestamp="${new Date().toISOString()}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,116 @@
+import { Conversion, EnvironmentProfile, SignalMapping } from "../types";
+import { parseCallTemplate } from "./callRules";
+import { getColumn, getProfiles } from "./profiles";
+
+export type MappingFindingCode =
+  | 'empty-field'
+  | 'duplicate-source'
+  | 'many-to-one'
+  | 'prefix-overlap'
+  | 'chained-target'
+  | 'invalid-call';
+
+export interface MappingFinding {
+  mappingId: string;
+  severity: 'error' | 'warning';
+  code: MappingFindingCode;
+  message: string;
+}
+
+const isBlank = (value: unknown) => typeof value !== 'string' || value.trim() === '';
+
+/**
+ * Consistency checks for a mapping table: empty fields, duplicate sources,
+ * many-to-one targets (ambiguous HIL reversal), sources that are substrings
+ * of other sources, targets that contain another rule's source, and call
+ * rules whose templates are not of the form `name(args)`.
+ */
+export const analyzeMappings = (mappings: SignalMapping[]): MappingFinding[] => {
+  const findings: MappingFinding[] = [];
+  const add = (m: SignalMapping, severity: MappingFinding['severity'], code: MappingFindingCode, message: string) =>
+    findings.push({ mappingId: String(m.id), severity, code, message });
+
+  mappings.forEach((m) => {
+    if (isBlank(m.id)) add(m, 'error', 'empty-field', "Rule has no id");
+    if (isBlank(m.realSignal)) add(m, 'error', 'empty-field', "HIL (real) signal is empty");
+    if (isBlank(m.simSignal)) add(m, 'error', 'empty-field', "SIL (sysvar) signal is empty");
+    if (m.kind === 'call') {
+      [m.realSignal, m.simSignal].forEach((side) => {
+        if (!isBlank(side) && !parseCallTemplate(side)) {
+          add(m, 'error', 'invalid-call', `'${side}' is not a call template like 'name($arg)'`);
+        }
+      });
+    }
+  });
+
+  const complete = mappings.filter(m => !isBlank(m.realSignal) && !isBlank(m.simSignal));
+
+  complete.forEach((m, i) => {
+    complete.forEach((other, j) => {
+      if (i === j) return;
+
+      if (m.realSignal === other.realSignal && i > j) {
+        add(m, 'error', 'duplicate-source', `Duplicate real signal '${m.realSignal}' (also rule ${other.id})`);
+      }
+      if (m.simSignal === other.simSignal && m.realSignal !== other.realSignal && i > j) {
+        add(m, 'warning', 'many-to-one', `'${m.simSignal}' is also the target of rule ${other.id}; HIL reversal is ambiguous`);
+      }
+
+      if (m.realSignal !== other.realSignal && other.realSignal.includes(m.realSignal)) {
+        add(m, 'warning', 'prefix-overlap', `'${m.realSignal}' is part of rule ${other.id} source '${other.realSignal}'`);
+      }
+      if (m.simSignal !== other.simSignal && other.simSignal.includes(m.simSignal)) {
+        add(m, 'warning', 'prefix-overlap', `'${m.simSignal}' is part of rule ${other.id} target '${other.simSignal}'`);
+      }
+
+      if (m.simSignal.includes(other.realSignal)) {
+        add(m, 'warning', 'chained-target', `SIL target contains rule ${other.id} source '${other.realSignal}'`);
+      }
+      if (m.realSignal.includes(other.simSignal)) {
+        add(m, 'warning', 'chained-target', `HIL target contains rule ${other.id} source '${other.simSignal}'`);
+      }
+    });
+  });
+
+  return findings;
+};
+
+/**
+ * Analyzer findings for the two profiles of a conversion, oriented like
+ * projectConversion. Rules missing one of the two columns are skipped when
+ * they fill another profile's column (they belong to another conversion),
+ * otherwise reported as empty.
+ */
+export const analyzeConversion = (mappings: SignalMapping[], profiles: EnvironmentProfile[], conversion: Conversion): MappingFinding[] => {
+  const all = getProfiles(profiles);
+  const from = all.find(p => p.id === conversion.from);
+  const to = all.find(p => p.id === conversion.to);
+  if (!from || !to || from.id === to.id) return analyzeMappings(mappings);
+
+  const columns = mappings
+    .map((m) => {
+      const source = getColumn(m, from.id);
+      const target = getColumn(m, to.id);
+      const coversOthers = all.some(p => p.id !== from.id && p.id !== to.id && !isBlank(getColumn(m, p.id)));
+      if ((isBlank(source) || isBlank(target)) && coversOthers) return null;
+      const { values, ...rule } = m;
+      return from.kind === 'signal'
+        ? { ...rule, realSignal: source, simSignal: target }
+        : { ...rule, realSignal: target, simSignal: source };
+    })
+    .filter((m): m is SignalMapping => !!m);
+  return analyzeMappings(columns);
+};
+
+/**
+ * Terminal-friendly summary of analyzer findings.
+ */
+export const formatFindingsSummary = (findings: MappingFinding[]): string => {
+  if (findings.length === 0) return "Success: Mapping table is consistent.";
+  const errors = findings.filter(f => f.severity === 'error').length;
+  const lines = findings.map(f => `  [${f.severity === 'error' ? 'ERR' : 'WARN'}] rule ${f.mappingId}: ${f.message}`);
+  const header = errors > 0
+    ? `Error: Mapping check found ${errors} error(s), ${findings.length - errors} warning(s).`
+    : `Info: Mapping check found ${findings.length} warning(s).`;
+  return [header, ...lines].join('\n');
+};
@@ -0,0 +1,248 @@
+import { EnvironmentProfile, MappingDocument, MappingFileHeader, SignalMapping } from "../types";
+import { BUILTIN_PROFILES } from "./profiles";
+
+export const MAPPING_SCHEMA_VERSION = 2;
+
+export interface MappingValidationError {
+  path: string;       // e.g. "mappings[3].simSignal"
+  ruleIndex?: number; // set for errors inside a rule
+  field?: string;     // rule field, e.g. "simSignal"
+  message: string;
+}
+
+export type MappingFileParseResult =
+  | { document: MappingDocument; migratedFrom?: number } // migratedFrom: schema version of a legacy file
+  | { errors: MappingValidationError[] };
+
+type Check = (value: unknown) => string | null; // error message or null
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const str: Check = v => (typeof v === 'string' ? null : 'must be a string');
+const nonEmpty: Check = v => (typeof v === 'string' && v.trim() !== '' ? null : 'must be a non-empty string');
+const num: Check = v => (typeof v === 'number' && Number.isFinite(v) ? null : 'must be a number');
+const oneOf = (...values: string[]): Check => v => (values.includes(v as string) ? null : `must be one of ${values.map(x => `'${x}'`).join(', ')}`);
+const dateTime: Check = v => (typeof v === 'string' && !Number.isNaN(Date.parse(v)) ? null : 'must be an ISO 8601 date-time string');
+const strings: Check = v => (Array.isArray(v) && v.every(x => typeof x === 'string') ? null : 'must be an array of strings');
+const stringMap: Check = v => (isObject(v) && Object.values(v).every(x => typeof x === 'string') ? null : 'must be an object of strings');
+
+// Mirrors schemas/mapping-file.schema.json
+const RULE_FIELDS: Record<string, Check> = {
+  id: nonEmpty,
+  kind: oneOf('signal', 'call'),
+  realSignal: str,
+  simSignal: str,
+  description: str,
+  accessStyle: oneOf('at', 'function', 'bare'),
+  attributes: v => (isObject(v) ? null : 'must be an object'),
+  values: stringMap,
+};
+const REQUIRED_RULE_FIELDS = ['id', 'realSignal', 'simSignal'];
+
+const ATTRIBUTE_FIELDS: Record<string, Check> = {
+  dataType: oneOf('int', 'float'),
+  unit: str,
+  factor: num,
+  offset: num,
+  min: num,
+  max: num,
+  initialValue: num,
+  valueTable: stringMap,
+};
+
+const HEADER_FIELDS: Record<string, Check> = {
+  schemaVersion: v => (v === MAPPING_SCHEMA_VERSION ? null : `must be ${MAPPING_SCHEMA_VERSION}`),
+  project: nonEmpty,
+  author: str,
+  dbc: strings,
+  vsysvar: strings,
+  createdAt: dateTime,
+  updatedAt: dateTime,
+};
+const REQUIRED_HEADER_FIELDS = ['schemaVersion', 'project', 'createdAt', 'updatedAt'];
+
+const PROFILE_FIELDS: Record<string, Check> = {
+  id: nonEmpty,
+  name: nonEmpty,
+  kind: oneOf('signal', 'sysvar'),
+};
+const REQUIRED_PROFILE_FIELDS = ['id', 'name', 'kind'];
+
+const checkObject = (
+  value: Record<string, unknown>,
+  fields: Record<string, Check>,
+  required: string[],
+  path: string,
+  extra: Partial<MappingValidationError> = {}
+): MappingValidationError[] => {
+  const errors: MappingValidationError[] = [];
+  required.filter(f => !(f in value)).forEach((field) => {
+    errors.push({ ...extra, path: `${path}.${field}`, field: extra.field ?? field, message: 'is required' });
+  });
+  Object.entries(value).forEach(([field, v]) => {
+    const check = fields[field];
+    const message = check ? check(v) : 'is not a known property';
+    if (message) errors.push({ ...extra, path: `${path}.${field}`, field: extra.field ?? field, message });
+  });
+  return errors;
+};
+
+/**
+ * Validates a list of rules; every error names the rule index and field.
+ * With `profiles`, the keys of each rule's `values` must be one of them.
+ */
+export const validateMappings = (value: unknown, path = 'mappings', profiles?: unknown[]): MappingValidationError[] => {
+  if (!Array.isArray(value)) return [{ path, message: 'must be an array of rules' }];
+  const errors: MappingValidationError[] = [];
+  const seenIds = new Map<string, number>();
+
+  value.forEach((rule, ruleIndex) => {
+    const rulePath = `${path}[${ruleIndex}]`;
+    if (!isObject(rule)) {
+      errors.push({ path: rulePath, ruleIndex, message: 'must be an object' });
+      return;
+    }
+    errors.push(...checkObject(rule, RULE_FIELDS, REQUIRED_RULE_FIELDS, rulePath).map(e => ({ ...e, ruleIndex })));
+    if (isObject(rule.attributes)) {
+      errors.push(...checkObject(rule.attributes, ATTRIBUTE_FIELDS, [], `${rulePath}.attributes`, { ruleIndex, field: 'attributes' }));
+    }
+    if (profiles && isObject(rule.values)) {
+      const known = new Set(profiles.map(p => (isObject(p) ? p.id : undefined)));
+      Object.keys(rule.values).filter(id => !known.has(id)).forEach((id) => {
+        errors.push({ path: `${rulePath}.values.${id}`, ruleIndex, field: 'values', message: 'is not a defined profile' });
+      });
+    }
+    if (typeof rule.id === 'string') {
+      const first = seenIds.get(rule.id);
+      if (first !== undefined) {
+        errors.push({ path: `${rulePath}.id`, ruleIndex, field: 'id', message: `duplicates the id of mappings[${first}]` });
+      } else {
+        seenIds.set(rule.id, ruleIndex);
+      }
+    }
+  });
+  return errors;
+};
+
+/**
+ * Validates a mapping file header.
+ */
+export const validateMappingHeader = (value: unknown, path = 'header'): MappingValidationError[] => {
+  if (!isObject(value)) return [{ path, message: 'is required and must be an object' }];
+  return checkObject(value, HEADER_FIELDS, REQUIRED_HEADER_FIELDS, path);
+};
+
+/**
+ * Validates the user-defined environment profiles (the built-in HIL and SIL
+ * profiles are implicit and cannot be redefined).
+ */
+export const validateProfiles = (value: unknown, path = 'profiles'): MappingValidationError[] => {
+  if (!Array.isArray(value)) return [{ path, message: 'must be an array of profiles' }];
+  const errors: MappingValidationError[] = [];
+  const seenIds = new Map<string, number>(BUILTIN_PROFILES.map(p => [p.id.toLowerCase(), -1]));
+
+  value.forEach((profile, index) => {
+    const profilePath = `${path}[${index}]`;
+    if (!isObject(profile)) {
+      errors.push({ path: profilePath, message: 'must be an object' });
+      return;
+    }
+    errors.push(...checkObject(profile, PROFILE_FIELDS, REQUIRED_PROFILE_FIELDS, profilePath));
+    if (typeof profile.id === 'string') {
+      const first = seenIds.get(profile.id.toLowerCase());
+      if (first === -1) {
+        errors.push({ path: `${profilePath}.id`, field: 'id', message: `'${profile.id}' is a built-in profile` });
+      } else if (first !== undefined) {
+        errors.push({ path: `${profilePath}.id`, field: 'id', message: `duplicates the id of ${path}[${first}]` });
+      } else {
+        seenIds.set(profile.id.toLowerCase(), index);
+      }
+    }
+  });
+  return errors;
+};
+
+/**
+ * Fresh header for a new mapping table.
+ */
+export const createMappingHeader = (project = 'Untitled project'): MappingFileHeader => {
+  const now = new Date().toISOString();
+  return { schemaVersion: MAPPING_SCHEMA_VERSION, project, createdAt: now, updatedAt: now };
+};
+
+/**
+ * Document to save: the header with a new `updatedAt`, the additional
+ * profiles (if any) and the rules.
+ */
+export const createMappingDocument = (
+  header: MappingFileHeader,
+  mappings: SignalMapping[],
+  profiles: EnvironmentProfile[] = []
+): MappingDocument => ({
+  header: {
+    ...header,
+    schemaVersion: MAPPING_SCHEMA_VERSION,
+    project: header.project.trim() || 'Untitled project',
+    updatedAt: new Date().toISOString(),
+  },
+  ...(profiles.length > 0 ? { profiles } : {}),
+  mappings,
+});
+
+// Version 1 files are a bare array; ids used to be numbers in some exports
+const migrateLegacy = (rules: unknown[]): unknown[] =>
+  rules.map(rule => (isObject(rule) && typeof rule.id === 'number' ? { ...rule, id: String(rule.id) } : rule));
+
+/**
+ * Parses and strictly validates a mapping file. Legacy bare-array files
+ * (version 1) are migrated to the current document format.
+ */
+export const parseMappingFile = (text: string, fallbackProject = 'Migrated mapping table'): MappingFileParseResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    return { errors: [{ path: '$', message: `is not valid JSON: ${(err as Error).message}` }] };
+  }
+
+  if (Array.isArray(json)) {
+    const mappings = migrateLegacy(json);
+    const errors = validateMappings(mappings);
+    if (errors.length > 0) return { errors };
+    return { document: { header: createMappingHeader(fallbackProject), mappings: mappings as SignalMapping[] }, migratedFrom: 1 };
+  }
+
+  if (!isObject(json)) {
+    return { errors: [{ path: '$', message: 'must be a mapping document object or a legacy array of rules' }] };
+  }
+
+  const errors: MappingValidationError[] = [];
+  Object.keys(json)
+    .filter(key => !['$schema', 'header', 'profiles', 'mappings'].includes(key))
+    .forEach(key => errors.push({ path: key, message: 'is not a known property' }));
+
+  const version = isObject(json.header) ? json.header.schemaVersion : undefined;
+  if (typeof version === 'number' && version > MAPPING_SCHEMA_VERSION) {
+    return { errors: [{ path: 'header.schemaVersion', message: `${version} is newer than this tool supports (${MAPPING_SCHEMA_VERSION})` }] };
+  }
+  errors.push(...validateMappingHeader(json.header));
+  const profiles = json.profiles ?? [];
+  errors.push(...validateProfiles(profiles));
+  errors.push(...validateMappings(json.mappings, 'mappings', Array.isArray(profiles) ? profiles : []));
+
+  if (errors.length > 0) return { errors };
+  return { document: json as unknown as MappingDocument };
+};
+
+/**
+ * One line per validation error, e.g. for the terminal or the CLI.
+ */
+export const formatValidationErrors = (errors: MappingValidationError[]): string =>
+  errors.map(e => `  ${e.ruleIndex !== undefined ? `rule #${e.ruleIndex + 1} ` : ''}${e.path}: ${e.message}`).join('\n');
+
+/**
+ * Records an imported DBC or .vsysvar file name in the header (once).
+ */
+export const addHeaderReference = (header: MappingFileHeader, key: 'dbc' | 'vsysvar', fileName: string): MappingFileHeader =>
+  header[key]?.includes(fileName) ? header : { ...header, [key]: [...(header[key] ?? []), fileName] };
@@ -0,0 +1,95 @@
+import { MappingCandidate, MappingSuggestion, SignalMapping } from "../types";
+import { parseRealSignal } from "./handlerTranslation";
+import { createMappingForUnmapped, findSignalReferences, knownMessageNames } from "./signalScanner";
+import { parseSysvarPath } from "./vsysvar";
+
+const MAX_EVIDENCE = 5;
+const MAX_ALTERNATIVES = 3;
+
+// Signals the model names but the source never references are unlikely to be right
+const NOT_FOUND_FACTOR = 0.25;
+
+/**
+ * Identity of a real signal, so that "$EngineMsg::Torque" and
+ * "EngineMsg.Torque" count as the same signal.
+ */
+export const signalKey = (text: string): string => {
+  const real = parseRealSignal(text);
+  return real ? `${real.message ?? ''}.${real.signal}` : text.replace(/\s+/g, '');
+};
+
+const normalizeSysvar = (text: string): string | null => {
+  const path = parseSysvarPath(text);
+  return path ? `sysvar::${path.join('::')}` : null;
+};
+
+// undefined when the model gave no score; the queue then shows none
+const normalizeConfidence = (value: unknown): number | undefined => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return Math.min(1, Math.max(0, value > 1 ? value / 100 : value));
+};
+
+/**
+ * Turns model candidates into review queue entries: drops signals that are
+ * already mapped, rejected before or listed twice, and adds the source
+ * lines that reference each signal.
+ */
+export const createSuggestions = (
+  candidates: MappingCandidate[],
+  code: string,
+  mappings: SignalMapping[],
+  rejected: string[]
+): MappingSuggestion[] => {
+  const skip = new Set([
+    ...mappings.filter(m => m.kind !== 'call').map(m => signalKey(m.realSignal)),
+    ...rejected.map(signalKey),
+  ]);
+  const asRules = candidates.map(c => ({ id: '', realSignal: c.realSignal, simSignal: c.simSignal }));
+  const references = findSignalReferences(code, knownMessageNames(code, [...mappings, ...asRules]))
+    .filter(ref => ref.kind !== 'sysvar');
+  const lines = code.split('\n');
+  const batch = Date.now().toString(36);
+
+  const suggestions: MappingSuggestion[] = [];
+  candidates.forEach((candidate, index) => {
+    const key = signalKey(candidate.realSignal);
+    if (!candidate.realSignal.trim() || skip.has(key)) return;
+    skip.add(key);
+
+    // Handler targets ("on signal Msg::Sig") are written without "$"
+    const found = references.filter(ref => signalKey(ref.kind === 'signal' && !ref.text.startsWith('$') ? `$${ref.text}` : ref.text) === key);
+    const foundLines = [...new Set(found.map(ref => ref.line))];
+    const fallback = createMappingForUnmapped({ kind: 'signal', text: candidate.realSignal.trim(), count: found.length, lines: foundLines }, '').simSignal;
+    const names = [candidate.simSignal, ...(candidate.alternatives ?? []), fallback]
+      .map(name => (typeof name === 'string' ? normalizeSysvar(name) : null))
+      .filter((name): name is string => !!name);
+    const [simSignal = candidate.simSignal.trim(), ...alternatives] = [...new Set(names)];
+    const reported = normalizeConfidence(candidate.confidence);
+    const confidence = reported === undefined ? undefined : reported * (found.length > 0 ? 1 : NOT_FOUND_FACTOR);
+
+    suggestions.push({
+      id: `sug-${batch}-${index}`,
+      realSignal: candidate.realSignal.trim(),
+      simSignal,
+      description: candidate.description?.trim() || undefined,
+      confidence,
+      alternatives: alternatives.slice(0, MAX_ALTERNATIVES),
+      evidence: foundLines.slice(0, MAX_EVIDENCE).map(line => ({ line, text: lines[line - 1]?.trim() ?? '' })),
+      occurrences: found.length,
+    });
+  });
+
+  // Unscored suggestions keep the model's order after the scored ones
+  return suggestions.sort((a, b) => (b.confidence ?? -1) - (a.confidence ?? -1));
+};
+
+/**
+ * Mapping rule for an accepted suggestion.
+ */
+export const suggestionToMapping = (suggestion: MappingSuggestion, simSignal: string, id: string): SignalMapping => ({
+  id,
+  realSignal: suggestion.realSignal,
+  simSignal: simSignal.trim(),
+  description: suggestion.description
+    ?? `AI suggestion (${suggestion.occurrences}x${suggestion.evidence.length > 0 ? `, line ${suggestion.evidence.map(e => e.line).join(', ')}` : ''})`,
+});
@@ -0,0 +1,31 @@
+import { SignalMapping } from "../types";
+
+/**
+ * Next free numeric id for a mapping table.
+ */
+export const getNextMappingId = (list: SignalMapping[]): string => {
+  const maxId = list.reduce((max, m) => {
+    const num = parseInt(m.id, 10);
+    return !isNaN(num) && num > max ? num : max;
+  }, 0);
+  return (maxId + 1).toString();
+};
+
+/**
+ * Appends incoming rules whose realSignal is not yet mapped, assigning
+ * incremental ids. Returns the merged table and the number of rules added.
+ */
+export const mergeMappings = (
+  existing: SignalMapping[],
+  incoming: SignalMapping[]
+): { mappings: SignalMapping[]; added: number } => {
+  const merged = [...existing];
+  let added = 0;
+  incoming.forEach((m) => {
+    if (!merged.some(e => e.realSignal === m.realSignal)) {
+      merged.push({ ...m, id: getNextMappingId(merged) });
+      added++;
+    }
+  });
+  return { mappings: merged, added };
+};
@@ -0,0 +1,120 @@
+import { Conversion, EnvironmentProfile, ProfileKind, SignalMapping, TestMode, TransformOptions } from "../types";
+
+// Built-in profiles, stored in the realSignal and simSignal columns
+export const BUILTIN_PROFILES: EnvironmentProfile[] = [
+  { id: TestMode.HIL, name: 'HIL', kind: 'signal' },
+  { id: TestMode.SIL, name: 'SIL', kind: 'sysvar' },
+];
+
+export const PROFILE_KIND_LABELS: Record<ProfileKind, string> = {
+  signal: 'bus signals',
+  sysvar: 'system variables',
+};
+
+/**
+ * The classic two-profile direction: converting to `mode` from the other one.
+ */
+export const conversionForMode = (mode: TestMode): Conversion =>
+  mode === TestMode.SIL ? { from: TestMode.HIL, to: TestMode.SIL } : { from: TestMode.SIL, to: TestMode.HIL };
+
+/**
+ * Built-in profiles followed by the additional ones.
+ */
+export const getProfiles = (extra: EnvironmentProfile[] = []): EnvironmentProfile[] => [...BUILTIN_PROFILES, ...extra];
+
+export const isBuiltinProfile = (id: string) => BUILTIN_PROFILES.some(p => p.id === id);
+
+/**
+ * A rule's value for a profile (empty when the rule does not cover it).
+ */
+export const getColumn = (mapping: SignalMapping, profileId: string): string => {
+  if (profileId === TestMode.HIL) return mapping.realSignal;
+  if (profileId === TestMode.SIL) return mapping.simSignal;
+  return mapping.values?.[profileId] ?? '';
+};
+
+export const setColumn = (mapping: SignalMapping, profileId: string, value: string): SignalMapping => {
+  if (profileId === TestMode.HIL) return { ...mapping, realSignal: value };
+  if (profileId === TestMode.SIL) return { ...mapping, simSignal: value };
+  const values = { ...mapping.values };
+  if (value) values[profileId] = value;
+  else delete values[profileId];
+  const { values: _, ...rest } = mapping;
+  return Object.keys(values).length > 0 ? { ...rest, values } : rest;
+};
+
+/**
+ * Drops a profile's column from every rule.
+ */
+export const removeProfileColumn = (mappings: SignalMapping[], profileId: string): SignalMapping[] =>
+  mappings.map(m => (m.values && profileId in m.values ? setColumn(m, profileId, '') : m));
+
+/**
+ * Finds a profile by id or (case-insensitive) name.
+ */
+export const findProfile = (profiles: EnvironmentProfile[], nameOrId: string): EnvironmentProfile | undefined => {
+  const wanted = nameOrId.trim().toLowerCase();
+  return profiles.find(p => p.id.toLowerCase() === wanted) ?? profiles.find(p => p.name.toLowerCase() === wanted);
+};
+
+/**
+ * Identifier-safe id derived from the name, unique among `profiles`.
+ */
+export const createProfileId = (profiles: EnvironmentProfile[], name: string): string => {
+  const base = name.trim().replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'Profile';
+  const taken = new Set(profiles.map(p => p.id.toLowerCase()));
+  let id = base;
+  for (let n = 2; taken.has(id.toLowerCase()); n++) id = `${base}_${n}`;
+  return id;
+};
+
+export const formatConversion = (profiles: EnvironmentProfile[], conversion: Conversion): string =>
+  `${findProfile(profiles, conversion.from)?.name ?? conversion.from} -> ${findProfile(profiles, conversion.to)?.name ?? conversion.to}`;
+
+export interface ProjectedConversion {
+  mode: TestMode;            // engine direction
+  mappings: SignalMapping[]; // rules with the two profiles in realSignal/simSignal
+  options: TransformOptions;
+  error?: string;            // unknown or identical profiles
+}
+
+/**
+ * Maps a conversion between any two profiles onto the two-column engine.
+ * Conversions from a bus signal profile run in SIL direction (the source
+ * becomes realSignal), conversions from a sysvar profile in HIL direction
+ * (the source becomes simSignal). Rules missing either column are dropped.
+ */
+export const projectConversion = (
+  mappings: SignalMapping[],
+  profiles: EnvironmentProfile[],
+  conversion: Conversion
+): ProjectedConversion => {
+  const from = profiles.find(p => p.id === conversion.from);
+  const to = profiles.find(p => p.id === conversion.to);
+  if (!from || !to || from.id === to.id) {
+    const error = !from || !to
+      ? `Unknown profile '${!from ? conversion.from : conversion.to}'`
+      : `Cannot convert '${from.name}' to itself`;
+    return { mode: TestMode.SIL, mappings: [], options: {}, error };
+  }
+
+  const fromSignals = from.kind === 'signal';
+  const mode = fromSignals ? TestMode.SIL : TestMode.HIL;
+  const projected = mappings
+    .map((m) => {
+      const source = getColumn(m, from.id);
+      const target = getColumn(m, to.id);
+      if (!source || !target) return null;
+      const { values, ...rule } = m;
+      return fromSignals
+        ? { ...rule, realSignal: source, simSignal: target }
+        : { ...rule, realSignal: target, simSignal: source };
+    })
+    .filter((m): m is SignalMapping => !!m);
+
+  return {
+    mode,
+    mappings: projected,
+    options: !fromSignals && to.kind === 'sysvar' ? { sysvarTargets: true } : {},
+  };
+};
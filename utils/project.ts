@@ -0,0 +1,139 @@
+import { ProjectFile, ProjectFileResult, ProjectResult, SignalMapping, TestMode, TransformOptions } from "../types";
+import { significantTokens, tokenizeCapl } from "./caplLexer";
+import { findClosing } from "./sysvarAccess";
+import { performLocalTransformation } from "./transformer";
+
+export const CAPL_FILE_EXTENSIONS = ['.can', '.cin'];
+
+export interface IncludeDirective {
+  path: string; // as written, e.g. "..\\common\\util.cin"
+  line: number;
+  column: number;
+}
+
+export interface ProjectTreeNode {
+  path: string;
+  children: ProjectTreeNode[];
+  missing: boolean;  // #include target that is not part of the project
+  repeated: boolean; // already shown higher up (shared include or cycle)
+}
+
+/**
+ * Lists the `#include "..."` directives inside an `includes { }` block.
+ */
+export const parseIncludes = (code: string): IncludeDirective[] => {
+  const tokens = significantTokens(tokenizeCapl(code)).filter(t => t.kind !== 'comment');
+  const directives: IncludeDirective[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].text !== 'includes' || tokens[i + 1]?.text !== '{') continue;
+    const close = findClosing(tokens, i + 1);
+    for (let k = i + 2; k < close; k++) {
+      if (tokens[k].text === '#' && tokens[k + 1]?.text === 'include' && tokens[k + 2]?.kind === 'string') {
+        const str = tokens[k + 2];
+        directives.push({ path: str.text.slice(1, -1), line: str.line, column: str.column });
+      }
+    }
+    i = close;
+  }
+  return directives;
+};
+
+/**
+ * Normalizes a project path: forward slashes, no "." or ".." segments.
+ */
+export const normalizePath = (path: string): string => {
+  const parts: string[] = [];
+  path.replace(/\\+/g, '/').split('/').forEach((part) => {
+    if (part === '' || part === '.') return;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  });
+  return parts.join('/');
+};
+
+/**
+ * Resolves an include relative to the directory of the including file.
+ */
+export const resolveIncludePath = (fromPath: string, include: string): string => {
+  const dir = normalizePath(fromPath).split('/').slice(0, -1).join('/');
+  return normalizePath(dir ? `${dir}/${include}` : include);
+};
+
+const findFile = (files: ProjectFile[], path: string) =>
+  files.find(f => f.path === path) ?? files.find(f => f.path.toLowerCase() === path.toLowerCase()); // CANoe runs on Windows
+
+/**
+ * Transforms every file of a project with the same mapping table and
+ * records which includes could be resolved.
+ */
+export const transformProject = (
+  files: ProjectFile[],
+  mode: TestMode,
+  mappings: SignalMapping[],
+  options: TransformOptions = {}
+): ProjectResult => {
+  const results: ProjectFileResult[] = files.map((file) => {
+    const includes: string[] = [];
+    const missingIncludes: string[] = [];
+    parseIncludes(file.content).forEach((directive) => {
+      const target = findFile(files, resolveIncludePath(file.path, directive.path));
+      if (target) includes.push(target.path);
+      else missingIncludes.push(resolveIncludePath(file.path, directive.path));
+    });
+    return { path: file.path, result: performLocalTransformation(file.content, mode, mappings, options), includes, missingIncludes };
+  });
+
+  return { files: results, totalChanges: results.reduce((sum, f) => sum + f.result.changes, 0) };
+};
+
+/**
+ * Builds the include tree: files nobody includes are roots (`.can` nodes
+ * first), their includes are nested below them.
+ */
+export const buildIncludeTree = (project: ProjectResult): ProjectTreeNode[] => {
+  const byPath = new Map(project.files.map(f => [f.path, f]));
+  const included = new Set(project.files.flatMap(f => f.includes));
+  const shown = new Set<string>();
+
+  const visit = (path: string): ProjectTreeNode => {
+    const file = byPath.get(path)!;
+    if (shown.has(path)) return { path, children: [], missing: false, repeated: true };
+    shown.add(path);
+    return {
+      path,
+      missing: false,
+      repeated: false,
+      children: [
+        ...file.includes.map(visit),
+        ...file.missingIncludes.map(p => ({ path: p, children: [], missing: true, repeated: false })),
+      ],
+    };
+  };
+
+  const roots = project.files
+    .filter(f => !included.has(f.path))
+    .sort((a, b) => Number(b.path.endsWith('.can')) - Number(a.path.endsWith('.can')) || a.path.localeCompare(b.path))
+    .map(f => visit(f.path));
+  // Files only reachable through an include cycle
+  project.files.filter(f => !shown.has(f.path)).forEach(f => roots.push(visit(f.path)));
+  return roots;
+};
+
+/**
+ * Terminal-friendly include tree with per-file change counts.
+ */
+export const formatProjectTree = (project: ProjectResult): string => {
+  const counts = new Map(project.files.map(f => [f.path, f.result]));
+  const lines: string[] = [];
+  const walk = (node: ProjectTreeNode, depth: number) => {
+    const result = counts.get(node.path);
+    const status = node.missing
+      ? 'missing'
+      : `${result!.changes} changes${result!.issues.length ? `, ${result!.issues.length} issues` : ''}${node.repeated ? ', see above' : ''}`;
+    lines.push(`${'  '.repeat(depth + 1)}${node.path}  (${status})`);
+    if (!node.repeated) node.children.forEach(child => walk(child, depth + 1));
+  };
+  buildIncludeTree(project).forEach(root => walk(root, 0));
+  return [`Project: ${project.files.length} file(s), ${project.totalChanges} replacements.`, ...lines].join('\n');
+};
@@ -0,0 +1,32 @@
+import { ReplacementEntry, TestMode, TransformationIssue, TransformationResult } from "../types";
+
+export interface ReplacementReport {
+  generatedAt: string;
+  mode: TestMode;
+  totalChanges: number;
+  replacements: ReplacementEntry[];
+  issues: TransformationIssue[];
+}
+
+/**
+ * Builds the exportable JSON report for a transformation run.
+ */
+export const createReplacementReport = (result: TransformationResult, mode: TestMode): ReplacementReport => ({
+  generatedAt: new Date().toISOString(),
+  mode,
+  totalChanges: result.changes,
+  replacements: result.replacements,
+  issues: result.issues,
+});
+
+/**
+ * One human-readable line per issue, e.g. for the terminal.
+ */
+export const formatIssue = (i: TransformationIssue): string =>
+  `  L${i.line}:${i.column}  ${i.message}`;
+
+/**
+ * One human-readable line per replacement, e.g. for the terminal.
+ */
+export const formatReplacement = (r: ReplacementEntry): string =>
+  `  L${r.line}:${r.column}  [${r.mappingId}] ${r.access === 'write' ? 'W' : 'R'} ${r.source} -> ${r.target}${r.handler ? `  (in ${r.handler})` : ''}`;
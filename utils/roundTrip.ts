@@ -0,0 +1,64 @@
+import { SignalMapping, TestMode, TransformOptions } from "../types";
+import { performLocalTransformation } from "./transformer";
+
+export interface RoundTripMismatch {
+  line: number;      // 1-based
+  original: string;
+  roundTrip: string;
+  ruleIds: string[]; // rules that touched this line in either direction
+}
+
+export interface RoundTripResult {
+  ok: boolean;
+  mode: TestMode;    // direction of the first pass
+  mismatches: RoundTripMismatch[];
+}
+
+const opposite = (mode: TestMode) => (mode === TestMode.SIL ? TestMode.HIL : TestMode.SIL);
+
+/**
+ * Transforms the code in `mode`, transforms the result back, and reports
+ * every line that did not come back unchanged together with the rules
+ * responsible for it.
+ */
+export const verifyRoundTrip = (
+  code: string,
+  mode: TestMode,
+  mappings: SignalMapping[],
+  options: TransformOptions = {}
+): RoundTripResult => {
+  const forward = performLocalTransformation(code, mode, mappings, options);
+  const backward = performLocalTransformation(forward.code, opposite(mode), mappings, options);
+
+  const originalLines = code.split('\n');
+  const roundTripLines = backward.code.split('\n');
+  const mismatches: RoundTripMismatch[] = [];
+
+  for (let i = 0; i < Math.max(originalLines.length, roundTripLines.length); i++) {
+    const original = originalLines[i] ?? '';
+    const roundTrip = roundTripLines[i] ?? '';
+    if (original === roundTrip) continue;
+
+    const line = i + 1;
+    const ruleIds = [...forward.replacements, ...backward.replacements]
+      .filter(r => r.line === line)
+      .map(r => r.mappingId);
+    mismatches.push({ line, original, roundTrip, ruleIds: [...new Set(ruleIds)] });
+  }
+
+  return { ok: mismatches.length === 0, mode, mismatches };
+};
+
+/**
+ * Terminal-friendly summary of a round-trip check.
+ */
+export const formatRoundTripResult = (result: RoundTripResult): string => {
+  const path = `${result.mode} -> ${opposite(result.mode)}`;
+  if (result.ok) return `Success: Round-trip ${path} reproduces the original.`;
+  const lines = result.mismatches.flatMap(m => [
+    `  L${m.line} (rules: ${m.ruleIds.join(', ') || 'unknown'})`,
+    `    - ${m.original.trim()}`,
+    `    + ${m.roundTrip.trim()}`,
+  ]);
+  return [`Error: Round-trip ${path} changed ${result.mismatches.length} line(s).`, ...lines].join('\n');
+};
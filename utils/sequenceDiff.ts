@@ -0,0 +1,68 @@
+// Above this many differing lines the diff view falls back to pairing lines by index
+const MAX_LINE_EDITS = 2000;
+
+/**
+ * Myers' O(ND) diff. Returns the index pairs of equal items in order, or
+ * null if the sequences differ in more than `maxEdits` items.
+ */
+export const matchSequences = (a: string[], b: string[], maxEdits: number): [number, number][] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = []; // trace[d][k + d]: furthest x on diagonal k after d edits
+
+  let found = -1;
+  for (let d = 0; d <= max && found < 0; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) found = d;
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  if (found < 0) return null;
+
+  const pairs: [number, number][] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d > 0; d--) {
+    const prev = trace[d - 1];
+    const at = (k: number) => prev[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const [startX, startY] = prevK === k + 1 ? [prevX, prevX - prevK + 1] : [prevX + 1, prevX - prevK];
+    while (x > startX && y > startY) pairs.push([--x, --y]);
+    x = prevX;
+    y = prevX - prevK;
+  }
+  while (x > 0 && y > 0) pairs.push([--x, --y]);
+  return pairs.reverse();
+};
+
+/**
+ * Rows of a side-by-side view: unchanged lines side by side, changed lines
+ * between them paired in order, and the rest (e.g. inserted blocks) on one
+ * side only. Indexes are 0-based; null marks an empty cell.
+ */
+export const alignLines = (source: string[], output: string[]): [number | null, number | null][] => {
+  const pairs = matchSequences(source, output, MAX_LINE_EDITS)
+    ?? Array.from({ length: Math.min(source.length, output.length) }, (_, i): [number, number] => [i, i]);
+  const rows: [number | null, number | null][] = [];
+  let a = 0;
+  let b = 0;
+  [...pairs, [source.length, output.length] as [number, number]].forEach(([nextA, nextB]) => {
+    while (a < nextA || b < nextB) {
+      rows.push([a < nextA ? a++ : null, b < nextB ? b++ : null]);
+    }
+    if (nextA < source.length) rows.push([a++, b++]);
+  });
+  return rows;
+};
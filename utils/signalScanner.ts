@@ -0,0 +1,181 @@
+import { CaplToken, SignalMapping, TestMode } from "../types";
+import { significantTokens, tokenizeCapl } from "./caplLexer";
+import { mergeAccessorCalls } from "./sysvarAccess";
+import { parseRealSignal } from "./handlerTranslation";
+import { performLocalTransformation } from "./transformer";
+import { parseSysvarPath } from "./vsysvar";
+
+// 'signal'         -> $Signal, $Msg::Signal, on signal Msg::Signal
+// 'message-signal' -> Msg.Signal where Msg is not a declared variable (or is a known message)
+// 'sysvar'         -> sysvar::A::B, @A::B, sysGetVariable*("A", "B"), on sysvar A::B
+export type SignalReferenceKind = 'signal' | 'message-signal' | 'sysvar';
+
+export interface SignalReference {
+  kind: SignalReferenceKind;
+  text: string; // as written, accessor calls as "sysvar::A::B"
+  line: number;
+  column: number;
+  start: number;
+  end: number;
+}
+
+const SIGNAL_HANDLERS = ['signal', 'signal_update', 'signal_change'];
+const SYSVAR_HANDLERS = ['sysvar', 'sysvar_update', 'sysvar_change'];
+
+const isOp = (t: CaplToken | undefined, text: string) => !!t && t.kind === 'operator' && t.text === text;
+
+// Words that precede an identifier without declaring it
+const NOT_A_TYPE = new Set([
+  'return', 'else', 'case', 'goto', 'on', 'message', 'multiplexed_message', 'struct', 'enum', 'this',
+  ...SIGNAL_HANDLERS, ...SYSVAR_HANDLERS,
+]);
+
+// Names declared as variables ("int x", "message EngineMsg m", "struct Data d",
+// "struct Data { ... } d;"), whose members are not signals
+const declaredNames = (tokens: CaplToken[]): Set<string> => {
+  const names = new Set<string>();
+  tokens.forEach((t, i) => {
+    if (t.kind !== 'identifier') return;
+    const type = tokens[i - 1];
+    const afterStructBody = isOp(type, '}') && (isOp(tokens[i + 1], ';') || isOp(tokens[i + 1], ','));
+    if ((type?.kind === 'identifier' && !NOT_A_TYPE.has(type.text)) || afterStructBody) names.add(t.text);
+  });
+  return names;
+};
+
+/**
+ * Message names that make `Msg.Signal` a signal reference: messages named in
+ * the mapping table and message types declared as `message <Type> <var>`.
+ */
+export const knownMessageNames = (code: string, mappings: SignalMapping[]): string[] => {
+  const names = new Set<string>();
+  mappings.forEach((m) => {
+    const message = m.kind !== 'call' ? parseRealSignal(m.realSignal)?.message : undefined;
+    if (message) names.add(message);
+  });
+  const tokens = significantTokens(tokenizeCapl(code)).filter(t => t.kind !== 'comment');
+  tokens.forEach((t, i) => {
+    const type = tokens[i + 1];
+    if (t.text === 'message' && type?.kind === 'identifier' && tokens[i + 2]?.kind === 'identifier') {
+      names.add(type.text.split('::').pop()!);
+    }
+  });
+  return [...names];
+};
+
+/**
+ * Lists every signal and sysvar reference in CAPL code, using the same
+ * tokenizer as the transformer: comments and string literals are ignored.
+ * `Msg.Sig` counts as a signal unless `Msg` is a declared variable and not
+ * one of `knownMessages`.
+ */
+export const findSignalReferences = (code: string, knownMessages: string[] = []): SignalReference[] => {
+  const tokens = mergeAccessorCalls(significantTokens(tokenizeCapl(code)).filter(t => t.kind !== 'comment')).tokens;
+  const declared = declaredNames(tokens);
+  const refs: SignalReference[] = [];
+  const add = (kind: SignalReferenceKind, first: CaplToken, last: CaplToken, text = code.slice(first.start, last.end)) =>
+    refs.push({ kind, text, line: first.line, column: first.column, start: first.start, end: last.end });
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+
+    // on signal X / on sysvar X: the handler target is a reference too
+    if (t.text === 'on' && t.kind === 'identifier') {
+      const kind = tokens[i + 1]?.text ?? '';
+      const isSignal = SIGNAL_HANDLERS.includes(kind);
+      if (isSignal || SYSVAR_HANDLERS.includes(kind)) {
+        let end = i + 2;
+        while (end < tokens.length && !isOp(tokens[end], '{')) end++;
+        if (end > i + 2) {
+          const text = tokens.slice(i + 2, end).map(x => x.text).join('');
+          add(isSignal ? 'signal' : 'sysvar', tokens[i + 2], tokens[end - 1], text);
+        }
+        i = end - 1;
+        continue;
+      }
+    }
+
+    if (t.kind === 'signal') {
+      add('signal', t, t);
+    } else if (t.kind === 'sysvar' && t.text !== '@this') {
+      add('sysvar', t, t, t.text);
+    } else if (
+      t.kind === 'identifier'
+      && t.text !== 'this'
+      && (knownMessages.includes(t.text) || !declared.has(t.text))
+      && !isOp(tokens[i - 1], '.')
+      && isOp(tokens[i + 1], '.')
+      && tokens[i + 2]?.kind === 'identifier'
+      && !isOp(tokens[i + 3], '(')
+    ) {
+      add('message-signal', t, tokens[i + 2]);
+      i += 2;
+    }
+  }
+
+  return refs;
+};
+
+export interface UnmappedSignal {
+  kind: SignalReferenceKind;
+  text: string;    // canonical reference, e.g. "$Oil_Temp" or "sysvar::Engine::Rpm"
+  count: number;   // occurrences in the code
+  lines: number[]; // distinct 1-based lines, ascending
+}
+
+// Whitespace-free form so "EngineMsg . Torque" and "EngineMsg.Torque" group together
+const canonical = (ref: SignalReference) => {
+  const text = ref.text.replace(/\s+/g, '');
+  if (ref.kind === 'sysvar') return `sysvar::${parseSysvarPath(text)?.join('::') ?? text}`;
+  // Handler targets are written without "$"
+  return ref.kind === 'signal' && !text.startsWith('$') ? `$${text}` : text;
+};
+
+/**
+ * Signal and sysvar references that no mapping rule rewrites. A reference
+ * counts as covered when the transformer replaces it: real signals in SIL
+ * mode, sysvars in HIL mode.
+ */
+export const findUnmappedSignals = (code: string, mappings: SignalMapping[]): UnmappedSignal[] => {
+  const covered = [TestMode.SIL, TestMode.HIL]
+    .flatMap(mode => performLocalTransformation(code, mode, mappings).replacements)
+    .map(r => [r.start, r.end] as const);
+  const isCovered = (ref: SignalReference) => covered.some(([start, end]) => ref.start >= start && ref.end <= end);
+
+  const byText = new Map<string, UnmappedSignal>();
+  findSignalReferences(code, knownMessageNames(code, mappings))
+    .filter(ref => !isCovered(ref))
+    .forEach((ref) => {
+      const text = canonical(ref);
+      const entry = byText.get(text) ?? { kind: ref.kind, text, count: 0, lines: [] };
+      entry.count++;
+      if (!entry.lines.includes(ref.line)) entry.lines.push(ref.line);
+      byText.set(text, entry);
+    });
+
+  return [...byText.values()].sort((a, b) => a.lines[0] - b.lines[0] || a.text.localeCompare(b.text));
+};
+
+/**
+ * Pre-filled rule for an unmapped reference: real signals get a sysvar in
+ * a namespace named after their message, sysvars get a "$<Variable>" signal.
+ */
+export const createMappingForUnmapped = (signal: UnmappedSignal, id: string): SignalMapping => {
+  const description = `Unmapped reference (${signal.count}x, line ${signal.lines.join(', ')})`;
+  if (signal.kind === 'sysvar') {
+    const path = parseSysvarPath(signal.text) ?? [signal.text];
+    return { id, realSignal: `$${path[path.length - 1]}`, simSignal: `sysvar::${path.join('::')}`, description };
+  }
+  const real = parseRealSignal(signal.text);
+  const simSignal = real ? `sysvar::${real.message ?? 'Signals'}::${real.signal}` : '';
+  return { id, realSignal: signal.text, simSignal, description };
+};
+
+/**
+ * Terminal-friendly list of unmapped references.
+ */
+export const formatUnmappedSignals = (signals: UnmappedSignal[]): string => {
+  if (signals.length === 0) return "Success: Every signal and sysvar reference is covered by a mapping.";
+  const lines = signals.map(s => `  ${s.text}  ${s.count}x  (line ${s.lines.join(', ')})`);
+  return [`Info: ${signals.length} unmapped reference(s):`, ...lines].join('\n');
+};
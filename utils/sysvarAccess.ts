@@ -0,0 +1,114 @@
+import { CaplToken, SignalAttributes } from "../types";
+
+const GETTER = /^sysGetVariable(Int|Float|Double)?$/;
+const SETTER = /^sysSetVariable(Int|Float|Double)?$/;
+
+export const ASSIGNMENT_OPERATORS = ['=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>='];
+
+const isOp = (t: CaplToken | undefined, text: string) => !!t && t.kind === 'operator' && t.text === text;
+
+const unquote = (t: CaplToken) => t.text.slice(1, -1);
+
+/**
+ * Name of the CAPL accessor for a data type, e.g. "sysGetVariableFloat".
+ */
+export const accessorName = (kind: 'get' | 'set', attributes?: SignalAttributes): string =>
+  `sys${kind === 'get' ? 'Get' : 'Set'}Variable${attributes?.dataType === 'int' ? 'Int' : 'Float'}`;
+
+/**
+ * Argument list that addresses a sysvar path, e.g. `"Sensors::Radar", "Dist"`.
+ */
+export const accessorArgs = (path: string[]): string =>
+  `"${path.slice(0, -1).join('::')}", "${path[path.length - 1]}"`;
+
+/**
+ * Index of the matching closing bracket for the opener at `open`.
+ */
+export const findClosing = (tokens: CaplToken[], open: number): number => {
+  const pairs: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+  const opener = tokens[open].text;
+  let depth = 0;
+  for (let k = open; k < tokens.length; k++) {
+    if (isOp(tokens[k], opener)) depth++;
+    if (isOp(tokens[k], pairs[opener]) && --depth === 0) return k;
+  }
+  return tokens.length - 1;
+};
+
+/**
+ * End (exclusive) of the expression starting at `from`: the first `;`, `,`
+ * or unbalanced closing bracket at nesting depth 0.
+ */
+export const findExpressionEnd = (tokens: CaplToken[], from: number, limit: number): number => {
+  let depth = 0;
+  for (let k = from; k < limit; k++) {
+    const t = tokens[k];
+    if (t.kind !== 'operator') continue;
+    if (['(', '[', '{'].includes(t.text)) depth++;
+    else if ([')', ']', '}'].includes(t.text)) {
+      if (depth === 0) return k;
+      depth--;
+    } else if (depth === 0 && (t.text === ';' || t.text === ',')) return k;
+  }
+  return limit;
+};
+
+export interface MergedAccessors {
+  tokens: CaplToken[];
+  // synthetic setter token index -> index of the call's closing ")"
+  setterClose: Map<number, number>;
+}
+
+/**
+ * Collapses sysvar accessor calls into single synthetic sysvar tokens so
+ * that they match mapping rules like any other sysvar reference:
+ *   sysGetVariableFloat("A", "B") / sysGetVariableFloat(sysvar::A::B) -> sysvar::A::B
+ *   sysSetVariableFloat("A", "B",  ->  sysvar::A::B (value follows, ")" recorded)
+ * Calls for which `keepCall` returns true (rewritten by call rules) are left alone.
+ */
+export const mergeAccessorCalls = (
+  tokens: CaplToken[],
+  keepCall: (tokens: CaplToken[], index: number) => boolean = () => false
+): MergedAccessors => {
+  const merged: CaplToken[] = [];
+  const setterClose = new Map<number, number>();
+  const pendingClose = new Map<number, number>(); // original ")" index -> synthetic index
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    const isAccessor = t.kind === 'identifier' && (GETTER.test(t.text) || SETTER.test(t.text)) && !keepCall(tokens, i);
+    const isGetter = isAccessor && GETTER.test(t.text);
+    const isSetter = isAccessor && SETTER.test(t.text);
+
+    if ((isGetter || isSetter) && isOp(tokens[i + 1], '(')) {
+      const a = tokens[i + 2];
+      // String form: ("Namespace", "Var" ...)
+      if (a?.kind === 'string' && isOp(tokens[i + 3], ',') && tokens[i + 4]?.kind === 'string') {
+        const path = `sysvar::${unquote(a)}::${unquote(tokens[i + 4])}`;
+        const tail = isGetter ? (isOp(tokens[i + 5], ')') ? i + 5 : -1) : (isOp(tokens[i + 5], ',') ? i + 5 : -1);
+        if (tail !== -1) {
+          if (isSetter) pendingClose.set(findClosing(tokens, i + 1), merged.length);
+          merged.push({ ...t, kind: 'sysvar', text: path, end: tokens[tail].end });
+          i = tail;
+          continue;
+        }
+      }
+      // Reference form: (sysvar::A::B ...)
+      if (a?.kind === 'sysvar') {
+        const tail = isGetter ? (isOp(tokens[i + 3], ')') ? i + 3 : -1) : (isOp(tokens[i + 3], ',') ? i + 3 : -1);
+        if (tail !== -1) {
+          if (isSetter) pendingClose.set(findClosing(tokens, i + 1), merged.length);
+          merged.push({ ...t, kind: 'sysvar', text: a.text.replace(/^@/, ''), end: tokens[tail].end });
+          i = tail;
+          continue;
+        }
+      }
+    }
+
+    const setterIndex = pendingClose.get(i);
+    if (setterIndex !== undefined) setterClose.set(setterIndex, merged.length);
+    merged.push(t);
+  }
+
+  return { tokens: merged, setterClose };
+};
@@ -1,50 +1,494 @@
-import { SignalMapping, TestMode, TransformationResult } from "../types";
+import {
+  CaplToken, ReplacementEntry, SignalMapping, TestMode, TransformationIssue, TransformationResult, TransformOptions
+} from "../types";
+import { significantTokens, tokenKey, tokenizeCapl } from "./caplLexer";
+import { findEnclosingBlock, findTopLevelBlocks } from "./caplBlocks";
+import { accessorArgs, accessorName, ASSIGNMENT_OPERATORS, findExpressionEnd, mergeAccessorCalls } from "./sysvarAccess";
+import { parseSysvarPath } from "./vsysvar";
+import { translateHandlerHeader } from "./handlerTranslation";
+import { CompiledCallRule, compileCallRule, matchCall, resolveCallVariables, splitTemplate } from "./callRules";
+import { createDualSetters, DualSetter, dualRead, dualSetterName, dualSetterType } from "./dualOutput";
+
+interface PatternToken {
+  key: string;            // tokenKey() of a literal token
+  regex?: RegExp;         // set when the token contains {captures}
+  captureNames: string[]; // capture names in regex group order
+}
+
+interface CompiledRule {
+  mapping: SignalMapping;
+  target: string;
+  pattern: PatternToken[];
+  isPattern: boolean;
+}
+
+const CAPTURE = /\{(\w+)\}/g;
+const SENTINEL = /__capture(\d+)__/g;
+
+/**
+ * True for rules like "$RadarObj{n}_Dist" that use named captures.
+ */
+export const isPatternRule = (text: string): boolean => /\{\w+\}/.test(text);
+
+const compileSource = (source: string): PatternToken[] => {
+  // Swap captures for identifier-safe sentinels so the lexer keeps them
+  // inside the surrounding signal token
+  const names: string[] = [];
+  const prepared = source.replace(CAPTURE, (_, name: string) => `__capture${names.push(name) - 1}__`);
+
+  return significantTokens(tokenizeCapl(prepared)).map((token) => {
+    const key = tokenKey(token);
+    if (!key.includes('__capture')) return { key, captureNames: [] };
+
+    const captureNames: string[] = [];
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(SENTINEL, (_, i: string) => {
+      captureNames.push(names[Number(i)]);
+      return '([A-Za-z0-9_]+?)';
+    });
+    return { key, regex: new RegExp(`^${escaped}$`), captureNames };
+  });
+};
+
+const compileRules = (mappings: SignalMapping[], mode: TestMode): CompiledRule[] => {
+  const rules: CompiledRule[] = [];
+  mappings.filter(m => m.kind !== 'call').forEach((mapping) => {
+    const source = mode === TestMode.SIL ? mapping.realSignal : mapping.simSignal;
+    const target = mode === TestMode.SIL ? mapping.simSignal : mapping.realSignal;
+    if (!source || !target) return;
+
+    const pattern = compileSource(source);
+    if (pattern.length > 0) {
+      rules.push({ mapping, target, pattern, isPattern: isPatternRule(source) });
+    }
+  });
+
+  // Longer patterns first, so "output(msgEngine)" wins over a bare "output";
+  // literal rules win over pattern rules of the same length
+  return rules.sort((a, b) => b.pattern.length - a.pattern.length || Number(a.isPattern) - Number(b.isPattern));
+};
+
+const compileCallRules = (mappings: SignalMapping[], mode: TestMode): CompiledCallRule[] =>
+  mappings
+    .filter(m => m.kind === 'call')
+    .map(m => compileCallRule(m, mode))
+    .filter((r): r is CompiledCallRule => !!r)
+    // Rules with more fixed arguments are more specific
+    .sort((a, b) => b.args.filter(p => p.kind !== 'capture').length - a.args.filter(p => p.kind !== 'capture').length);
 
 /**
- * Fast, deterministic string replacement based on the mapping table.
+ * Returns the captured values when the rule matches at `index`, else null.
+ */
+const matchAt = (tokens: CaplToken[], index: number, pattern: PatternToken[]): Record<string, string> | null => {
+  if (index + pattern.length > tokens.length) return null;
+  // "Obj.EngineMsg.Torque" is a member access, not the signal "EngineMsg.Torque"
+  const prev = tokens[index - 1];
+  if (prev && prev.kind === 'operator' && prev.text === '.') return null;
+
+  const captures: Record<string, string> = {};
+  for (let k = 0; k < pattern.length; k++) {
+    const p = pattern[k];
+    const key = tokenKey(tokens[index + k]);
+    if (!p.regex) {
+      if (key !== p.key) return null;
+      continue;
+    }
+    const m = p.regex.exec(key);
+    if (!m) return null;
+    for (let g = 0; g < p.captureNames.length; g++) {
+      const name = p.captureNames[g];
+      // A capture used twice must match the same text both times
+      if (name in captures && captures[name] !== m[g + 1]) return null;
+      captures[name] = m[g + 1];
+    }
+  }
+  return captures;
+};
+
+const HANDLER_KINDS = ['signal', 'signal_update', 'signal_change', 'sysvar', 'sysvar_update', 'sysvar_change'];
+
+const isOp = (t: CaplToken | undefined, ...texts: string[]) => !!t && t.kind === 'operator' && texts.includes(t.text);
+
+/**
+ * Token-aware replacement based on the mapping table. Only whole signal
+ * tokens are rewritten; comments, string/char literals and identifiers that
+ * merely contain a signal name are left untouched. In SIL mode (and in HIL
+ * mode with `sysvarTargets`), sysvar targets are emitted in the configured
+ * access syntax, distinguishing reads from assignment targets. Event handler
+ * headers (`on signal`, `on message`, `on sysvar`) are translated as a
+ * whole, including `this` in their bodies.
+ * Call rules rewrite whole function calls from their argument template.
+ *
+ * With `dualSwitch`, both variants are kept: reads become
+ * `(@sysvar::<switch> ? converted : original)`, writes call generated
+ * setters, and translated handlers are emitted twice (original and
+ * converted header, same body).
  */
 export const performLocalTransformation = (
   code: string,
   mode: TestMode,
-  mappings: SignalMapping[]
+  mappings: SignalMapping[],
+  options: TransformOptions = {}
 ): TransformationResult => {
-  let transformedCode = code;
-  let changesCount = 0;
-
-  // Sort mappings by length (descending) to avoid partial replacement issues
-  // e.g. replacing "$Speed" shouldn't break "$SpeedFront" if both exist
-  const sortedMappings = [...mappings].sort((a, b) => {
-    const lenA = mode === TestMode.SIL ? a.realSignal.length : a.simSignal.length;
-    const lenB = mode === TestMode.SIL ? b.realSignal.length : b.simSignal.length;
-    return lenB - lenA;
+  const rules = compileRules(mappings, mode);
+  const callRules = compileCallRules(mappings, mode);
+  const allTokens = tokenizeCapl(code);
+  const blocks = findTopLevelBlocks(allTokens);
+  // An accessor call stays a call only where a call rule can rewrite it;
+  // otherwise it merges into a sysvar reference for the signal rules
+  const keepCall = (raw: CaplToken[], i: number) => callRules.some((rule) => {
+    const match = matchCall(raw, i, rule);
+    return !!match && !resolveCallVariables(rule, match.captures, mode, mappings).missing;
   });
+  const { tokens, setterClose } = mode === TestMode.HIL
+    ? mergeAccessorCalls(significantTokens(allTokens), keepCall)
+    : { tokens: significantTokens(allTokens), setterClose: new Map<number, number>() };
 
-  sortedMappings.forEach((map) => {
-    const source = mode === TestMode.SIL ? map.realSignal : map.simSignal;
-    const target = mode === TestMode.SIL ? map.simSignal : map.realSignal;
+  const replacements: ReplacementEntry[] = [];
+  const issues: TransformationIssue[] = [];
+  const droppedTokens = new Set<number>();
 
-    if (!source || !target) return;
+  // Dual output: runtime switch, generated setters and handlers to duplicate
+  const dualPath = options.dualSwitch ? parseSysvarPath(options.dualSwitch) : null;
+  if (options.dualSwitch && !dualPath) {
+    issues.push({ line: 1, column: 1, message: `Dual output switch '${options.dualSwitch}' is not a sysvar path like Env::IsSIL; converted normally`, handler: null });
+  }
+  const switchRef = dualPath ? `@sysvar::${dualPath.join('::')}` : '';
+  const dualSetters = new Map<string, DualSetter>(); // "original|target" -> setter
+  const dualHandlers: { onIndex: number; braceIndex: number; endIndex: number; header: string; mappingId: string }[] = [];
+  const outputAt = new Map<number, number>(); // token index -> output offset, for dual handlers
+
+  const findRule = (i: number): { rule: CompiledRule; captures: Record<string, string> } | null => {
+    for (const rule of rules) {
+      const captures = matchAt(tokens, i, rule.pattern);
+      if (captures) return { rule, captures };
+    }
+    return null;
+  };
+
+  const findCall = (i: number, limit: number) => {
+    for (const rule of callRules) {
+      const match = matchCall(tokens, i, rule);
+      if (match && match.closeIndex < limit) return { rule, match };
+    }
+    return null;
+  };
+
+  // Whole-token rewrites decided up front: handler headers (keyed by the
+  // index of their "on" token) and `this` inside translated handlers
+  const fixedRewrites = new Map<number, { lastIndex: number; text: string | null; mappingId: string }>();
+  const addIssue = (token: CaplToken, message: string, handler: string | null) =>
+    issues.push({ line: token.line, column: token.column, message, handler });
+
+  blocks.filter(b => b.isEventHandler).forEach((block) => {
+    const onIndex = tokens.findIndex(t => t.start === block.headerStart);
+    const braceIndex = tokens.findIndex(t => t.start === block.bodyStart);
+    const endIndex = tokens.findIndex(t => t.end === block.end);
+    if (onIndex === -1 || braceIndex === -1) return;
+
+    const headerIndexes = tokens.slice(onIndex, braceIndex)
+      .map((t, k) => (t.kind === 'comment' ? -1 : onIndex + k))
+      .filter(k => k !== -1);
+    const result = translateHandlerHeader(headerIndexes.map(k => tokens[k]), mode, mappings);
+    if (!result) return;
+
+    const lastIndex = headerIndexes[headerIndexes.length - 1];
+    if ('issue' in result) {
+      addIssue(tokens[onIndex], result.issue, block.header);
+      // Keep the header verbatim so no signal rule half-rewrites it
+      fixedRewrites.set(onIndex, { lastIndex, text: null, mappingId: '' });
+      return;
+    }
+
+    const { translation } = result;
+    const mappingId = translation.mappingIds.join(',');
+    if (dualPath) {
+      // Both headers share the body, so it must not depend on the handler kind
+      const usesThis = tokens.slice(braceIndex + 1, endIndex).some(t => t.text === 'this' || t.text === '@this');
+      fixedRewrites.set(onIndex, { lastIndex, text: null, mappingId: '' });
+      if (usesThis || translation.target === 'namespace' || translation.target === 'message') {
+        addIssue(tokens[onIndex], `Dual output keeps only '${block.header}'; add '${translation.header}' manually`, block.header);
+      } else {
+        dualHandlers.push({ onIndex, braceIndex, endIndex, header: translation.header, mappingId });
+      }
+      return;
+    }
+    fixedRewrites.set(onIndex, { lastIndex, text: translation.header, mappingId });
+
+    for (let k = braceIndex + 1; k < endIndex; k++) {
+      const t = tokens[k];
+      const isThis = t.kind === 'identifier' && t.text === 'this';
+      const isAtThis = t.kind === 'sysvar' && t.text === '@this';
+
+      if (translation.target === 'namespace' && isThis) {
+        // this.<Signal> in a message handler refers to <Message>.<Signal>
+        if (isOp(tokens[k + 1], '.') && tokens[k + 2]?.kind === 'identifier') {
+          tokens[k] = { ...t, kind: 'identifier', text: translation.messageName! };
+          if (!findRule(k)) addIssue(t, `'this.${tokens[k + 2].text}' has no mapping`, block.header);
+        } else {
+          addIssue(t, `'this' cannot be translated inside '${translation.header}'`, block.header);
+        }
+      } else if (translation.target === 'sysvar' && isThis && !isOp(tokens[k + 1], '.')) {
+        fixedRewrites.set(k, { lastIndex: k, text: '@this', mappingId });
+      } else if (translation.target === 'signal' && isAtThis) {
+        fixedRewrites.set(k, { lastIndex: k, text: 'this', mappingId });
+      } else if (translation.target === 'message' && isAtThis) {
+        addIssue(t, `'@this' cannot be translated inside '${translation.header}'`, block.header);
+      }
+    }
+  });
+
+  // Rewrites tokens [from, to) and returns the new text for that range.
+  // `outBase` is the output offset at which the returned text will start.
+  const rewrite = (from: number, to: number, outBase: number): string => {
+    if (from >= to) return '';
+    let out = '';
+    let cursor = tokens[from].start;
+
+    for (let i = from; i < to; i++) {
+      if (dualHandlers.length > 0) outputAt.set(i, outBase + out.length + tokens[i].start - cursor);
+      if (droppedTokens.has(i)) {
+        out += code.slice(cursor, tokens[i].start);
+        cursor = tokens[i].end;
+        continue;
+      }
+
+      const fixed = fixedRewrites.get(i);
+      if (fixed) {
+        if (fixed.text !== null) {
+          const end = tokens[fixed.lastIndex].end;
+          out += code.slice(cursor, tokens[i].start);
+          const outputStart = outBase + out.length;
+          out += fixed.text;
+          replacements.push(entry(fixed.mappingId, tokens[i], tokens[i].start, end, fixed.text, 'read', outputStart));
+          cursor = end;
+        }
+        i = fixed.lastIndex;
+        continue;
+      }
+
+      const call = callRules.length > 0 ? findCall(i, to) : null;
+      if (call && dualPath) {
+        // Calls have no value to select from; arguments are still rewritten
+        const close = tokens[call.match.closeIndex];
+        addIssue(
+          tokens[i],
+          `Rule ${call.rule.mapping.id}: call rules are not applied in dual output; '${code.slice(tokens[i].start, close.end)}' kept`,
+          findEnclosingBlock(blocks, tokens[i].start)?.header ?? null
+        );
+      } else if (call) {
+        const { rule, match } = call;
+        const close = tokens[match.closeIndex];
+        const { values, missing } = resolveCallVariables(rule, match.captures, mode, mappings);
+        if (missing) {
+          addIssue(
+            tokens[i],
+            `Rule ${rule.mapping.id}: cannot resolve '$${missing}' for '${code.slice(tokens[i].start, close.end)}'; call kept`,
+            findEnclosingBlock(blocks, tokens[i].start)?.header ?? null
+          );
+        } else {
+          out += code.slice(cursor, tokens[i].start);
+          const outputStart = outBase + out.length;
+          // Captured arguments are rewritten themselves before insertion
+          const argTexts: Record<string, string> = {};
+          splitTemplate(rule.target, rule.variables).forEach(({ text, placeholder }) => {
+            const range = placeholder ? match.argRanges[placeholder] : undefined;
+            if (range) out += (argTexts[placeholder!] ??= rewrite(range[0], range[1], outBase + out.length));
+            else out += placeholder ? values[placeholder] : text;
+          });
+          replacements.push(entry(rule.mapping.id, tokens[i], tokens[i].start, close.end, out.slice(outputStart - outBase), 'read', outputStart));
+          cursor = close.end;
+          i = match.closeIndex;
+          continue;
+        }
+      }
+
+      const found = findRule(i);
+      if (!found) continue;
+      const { rule, captures } = found;
 
-    // Escape special regex characters in the source string
-    const escapedSource = source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    
-    // We try to use word boundaries if the signal starts with alphanumeric, 
-    // but CAPL signals like $Signal or Message.Signal have punctuation which complicates \b
-    // For safety in this demo, we'll use a global replace with careful ordering.
-    // A more advanced version would tokenize the CAPL code.
-    
-    const regex = new RegExp(escapedSource, 'g');
-    
-    // Count matches
-    const matches = transformedCode.match(regex);
-    if (matches) {
-      changesCount += matches.length;
-      transformedCode = transformedCode.replace(regex, target);
+      const lastIndex = i + rule.pattern.length - 1;
+      const first = tokens[i];
+      const last = tokens[lastIndex];
+      const next = tokens[lastIndex + 1];
+      const prev = tokens[i - 1];
+      const target = rule.isPattern
+        ? rule.target.replace(CAPTURE, (whole, name: string) => captures[name] ?? whole)
+        : rule.target;
+
+      const isSetterCall = setterClose.has(lastIndex);
+      const isAssigned = isOp(next, ...ASSIGNMENT_OPERATORS);
+      const isIncDec = isOp(next, '++', '--') || isOp(prev, '++', '--');
+      const access: ReplacementEntry['access'] = isSetterCall || isAssigned || isIncDec ? 'write' : 'read';
+
+      // Event handler headers ("on sysvar X") always take the bare name
+      const inHeader = prev?.kind === 'identifier' && HANDLER_KINDS.includes(prev.text) && tokens[i - 2]?.text === 'on';
+      const path = mode === TestMode.SIL || options.sysvarTargets ? parseSysvarPath(target) : null;
+      const style = path && !inHeader ? rule.mapping.accessStyle ?? options.accessStyle ?? 'at' : 'bare';
+
+      let sourceStart = first.start;
+      let sourceEnd = last.end;
+      let text = target;
+      let resumeAt = lastIndex + 1;
+
+      if (dualPath && !inHeader) {
+        const original = variant(tokens.slice(i, lastIndex + 1), code.slice(first.start, last.end));
+        const converted = path && style !== 'bare' ? (style === 'at' ? `@sysvar::${path.join('::')}` : `${accessorName('get', rule.mapping.attributes)}(${accessorArgs(path)})`) : target;
+        const read = dualRead(switchRef, converted, original);
+        const setter = access === 'write' ? dualSetter(rule.mapping, original, target, path, style) : '';
+
+        if (isSetterCall) {
+          // sysSetVariableFloat("A", "B", x)  ->  dualSet_A_B(x)
+          text = `${setter}(`;
+        } else if (isAssigned) {
+          const rhsStart = lastIndex + 2;
+          const rhsEnd = findExpressionEnd(tokens, rhsStart, to);
+          if (rhsEnd > rhsStart) {
+            const op = next.text.slice(0, -1);
+            text = op ? `${setter}(${read} ${op} (` : `${setter}(`;
+            sourceEnd = next.end;
+            out += code.slice(cursor, sourceStart);
+            const outputStart = outBase + out.length;
+            out += text;
+            const rhs = rewrite(rhsStart, rhsEnd, outBase + out.length);
+            replacements.push(entry(rule.mapping.id, first, sourceStart, sourceEnd, text, access, outputStart, rule.isPattern ? captures : undefined));
+            out += rhs + (op ? '))' : ')');
+            cursor = tokens[rhsEnd - 1].end;
+            i = rhsEnd - 1;
+            continue;
+          }
+          text = read;
+        } else if (isOp(next, '++', '--')) {
+          text = `${setter}(${read} ${next.text[0]} 1)`;
+          sourceEnd = next.end;
+          resumeAt = lastIndex + 2;
+        } else if (isOp(prev, '++', '--')) {
+          text = `${setter}(${read} ${prev.text[0]} 1)`;
+          sourceStart = prev.start;
+        } else {
+          text = read;
+        }
+      } else if (isSetterCall && style === 'function') {
+        // sysSetVariableFloat("A", "B", x)  ->  sysSetVariableFloat("C", "D", x)
+        text = `${accessorName('set', rule.mapping.attributes)}(${accessorArgs(path!)},`;
+      } else if (isSetterCall) {
+        // sysSetVariableFloat("A", "B", x)  ->  $Signal = x
+        text = `${style === 'at' ? `@sysvar::${path!.join('::')}` : target} =`;
+        droppedTokens.add(setterClose.get(lastIndex)!);
+      } else if (style === 'at') {
+        text = `@sysvar::${path!.join('::')}`;
+      } else if (style === 'function') {
+        const getter = `${accessorName('get', rule.mapping.attributes)}(${accessorArgs(path!)})`;
+        const setter = `${accessorName('set', rule.mapping.attributes)}(${accessorArgs(path!)}, `;
+        text = getter;
+
+        if (isAssigned) {
+          const rhsStart = lastIndex + 2;
+          const rhsEnd = findExpressionEnd(tokens, rhsStart, to);
+          if (rhsEnd > rhsStart) {
+            const op = next.text.slice(0, -1); // "+=" -> "+", "=" -> ""
+            text = op ? `${setter}${getter} ${op} (` : setter;
+            sourceEnd = next.end;
+            out += code.slice(cursor, sourceStart);
+            const outputStart = outBase + out.length;
+            out += text;
+            const rhs = rewrite(rhsStart, rhsEnd, outBase + out.length);
+            replacements.push(entry(rule.mapping.id, first, sourceStart, sourceEnd, text, access, outputStart, rule.isPattern ? captures : undefined));
+            out += rhs + (op ? '))' : ')');
+            cursor = tokens[rhsEnd - 1].end;
+            i = rhsEnd - 1;
+            continue;
+          }
+        } else if (isOp(next, '++', '--')) {
+          text = `${setter}${getter} ${next.text[0]} 1)`;
+          sourceEnd = next.end;
+          resumeAt = lastIndex + 2;
+        } else if (isOp(prev, '++', '--')) {
+          text = `${setter}${getter} ${prev.text[0]} 1)`;
+          sourceStart = prev.start;
+        }
+      }
+
+      out += code.slice(cursor, sourceStart);
+      const outputStart = outBase + out.length;
+      out += text;
+      replacements.push(entry(rule.mapping.id, first, sourceStart, sourceEnd, text, access, outputStart, rule.isPattern ? captures : undefined));
+      cursor = sourceEnd;
+      i = resumeAt - 1;
     }
+
+    return out + code.slice(cursor, tokens[to - 1].end);
+  };
+
+  // The source reference as an expression (accessor calls become @sysvar::)
+  const variant = (matched: CaplToken[], written: string): string => {
+    const path = matched.length === 1 && matched[0].kind === 'sysvar' ? parseSysvarPath(matched[0].text) : null;
+    return path ? `@sysvar::${path.join('::')}` : written;
+  };
+
+  // Name of the generated setter writing `target` or `original`
+  const dualSetter = (mapping: SignalMapping, original: string, target: string, path: string[] | null, style: string): string => {
+    const key = `${original}|${target}`;
+    const existing = dualSetters.get(key);
+    if (existing) return existing.name;
+    const name = dualSetterName(target, new Set([...dualSetters.values()].map(s => s.name)));
+    const converted = path && style === 'function'
+      ? `${accessorName('set', mapping.attributes)}(${accessorArgs(path)}, value);`
+      : `${path && style === 'at' ? `@sysvar::${path.join('::')}` : target} = value;`;
+    dualSetters.set(key, { name, type: dualSetterType(mapping.attributes), converted, original: `${original} = value;` });
+    return name;
+  };
+
+  const entry = (
+    mappingId: string,
+    first: CaplToken,
+    start: number,
+    end: number,
+    target: string,
+    access: ReplacementEntry['access'],
+    outputStart: number,
+    captures?: Record<string, string>
+  ): ReplacementEntry => ({
+    mappingId,
+    source: code.slice(start, end),
+    target,
+    ...(captures ? { captures } : {}),
+    access,
+    line: first.line,
+    column: first.column,
+    handler: findEnclosingBlock(blocks, first.start)?.header ?? null,
+    start,
+    end,
+    outputStart,
+    outputEnd: outputStart + target.length,
+  });
+
+  const leading = tokens.length > 0 ? code.slice(0, tokens[0].start) : code;
+  const body = rewrite(0, tokens.length, leading.length);
+  const trailing = tokens.length > 0 ? code.slice(tokens[tokens.length - 1].end) : '';
+  let output = leading + body + trailing;
+
+  // Dual output: a copy of each translated handler follows the original
+  dualHandlers.slice().reverse().forEach((h) => {
+    const bodyStart = outputAt.get(h.braceIndex)!;
+    const blockEnd = outputAt.get(h.endIndex)! + 1;
+    const copy = `\n\n${h.header} ${output.slice(bodyStart, blockEnd)}`;
+    output = output.slice(0, blockEnd) + copy + output.slice(blockEnd);
+    replacements.forEach((r) => {
+      if (r.outputStart >= blockEnd) {
+        r.outputStart += copy.length;
+        r.outputEnd += copy.length;
+      }
+    });
+    const onToken = tokens[h.onIndex];
+    replacements.push(entry(h.mappingId, onToken, onToken.start, tokens[h.braceIndex - 1].end, h.header, 'read', blockEnd + 2));
   });
+  const setters = createDualSetters([...dualSetters.values()], switchRef);
+  if (setters) output = `${output.replace(/\s*$/, '')}\n\n${setters}\n`;
 
   return {
-    code: transformedCode,
-    changes: changesCount,
+    code: output,
+    changes: replacements.length,
+    replacements: replacements.sort((a, b) => a.start - b.start),
+    issues,
   };
 };
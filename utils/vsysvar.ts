@@ -0,0 +1,238 @@
+import { SignalMapping, SysvarDeclarations } from "../types";
+import { significantTokens, tokenizeCapl } from "./caplLexer";
+import { mergeAccessorCalls } from "./sysvarAccess";
+
+interface VsysvarNamespace {
+  name: string;
+  namespaces: VsysvarNamespace[];
+  variables: { name: string; mapping: SignalMapping }[];
+}
+
+const IDENT = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Splits a system variable reference into its namespace path and variable
+ * name, e.g. "@sysvar::Engine::Speed" -> ["Engine", "Speed"]. Returns null
+ * for anything that is not a plain sysvar reference.
+ */
+export const parseSysvarPath = (text: string): string[] | null => {
+  const name = text.trim().replace(/^@/, '').replace(/^sysvar::/, '');
+  const parts = name.split('::');
+  if (parts.length < 2 || !parts.every(p => IDENT.test(p))) return null;
+  return parts;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const renderVariable = (name: string, mapping: SignalMapping, indent: string): string => {
+  const a = mapping.attributes ?? {};
+  const isInt = a.dataType === 'int';
+  const attrs: [string, string | number | undefined][] = [
+    ['anlyzLocal', 2],
+    ['readOnly', 'false'],
+    ['valueSequence', 'false'],
+    ['unit', a.unit ?? ''],
+    ['name', name],
+    ['comment', mapping.description ?? ''],
+    ['bitcount', isInt ? 32 : 64],
+    ['isSigned', 'true'],
+    ['encoding', 65001],
+    ['type', isInt ? 'int' : 'float'],
+    ['startValue', a.initialValue ?? 0],
+    ['minValue', a.min],
+    ['minValuePhys', a.min],
+    ['maxValue', a.max],
+    ['maxValuePhys', a.max],
+  ];
+  const rendered = attrs
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}="${escapeXml(String(v))}"`)
+    .join(' ');
+  return `${indent}<variable ${rendered} />`;
+};
+
+const renderNamespace = (ns: VsysvarNamespace, indent: string): string[] => [
+  `${indent}<namespace name="${escapeXml(ns.name)}" comment="" interface="">`,
+  ...ns.namespaces.flatMap(child => renderNamespace(child, indent + '  ')),
+  ...ns.variables.map(v => renderVariable(v.name, v.mapping, indent + '  ')),
+  `${indent}</namespace>`,
+];
+
+/**
+ * Builds a CANoe system variable definition file (.vsysvar) that declares
+ * every `sysvar::` target of the mapping table. Rules whose simSignal is not
+ * a plain sysvar reference are returned in `skipped`.
+ */
+export const createVsysvarXml = (mappings: SignalMapping[]): { xml: string; skipped: SignalMapping[] } => {
+  const root: VsysvarNamespace = { name: '', namespaces: [], variables: [] };
+  const skipped: SignalMapping[] = [];
+
+  mappings.filter(m => m.kind !== 'call').forEach((mapping) => {
+    const path = parseSysvarPath(mapping.simSignal);
+    if (!path) {
+      skipped.push(mapping);
+      return;
+    }
+
+    const variable = path[path.length - 1];
+    let ns = root;
+    path.slice(0, -1).forEach((segment) => {
+      let child = ns.namespaces.find(n => n.name === segment);
+      if (!child) {
+        child = { name: segment, namespaces: [], variables: [] };
+        ns.namespaces.push(child);
+      }
+      ns = child;
+    });
+
+    if (!ns.variables.some(v => v.name === variable)) {
+      ns.variables.push({ name: variable, mapping });
+    }
+  });
+
+  const xml = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<systemvariables version="4">',
+    ...renderNamespace(root, '  '),
+    '</systemvariables>',
+    '',
+  ].join('\n');
+
+  return { xml, skipped };
+};
+
+const ATTR_NAME = /\bname="([^"]*)"/;
+
+/**
+ * Reads the namespace tree of a .vsysvar file. Works on the raw XML so it
+ * can run both in the browser and in Node.
+ */
+export const parseVsysvarXml = (xml: string, source: string): SysvarDeclarations => {
+  const namespaces: string[] = [];
+  const variables: string[] = [];
+  const stack: string[] = [];
+
+  const tags = /<(\/?)(namespace|variable)\b([^>]*?)(\/?)>/g;
+  let m: RegExpExecArray | null;
+  while ((m = tags.exec(xml)) !== null) {
+    const [, closing, tag, attrs, selfClosing] = m;
+    if (tag === 'namespace') {
+      if (closing) {
+        stack.pop();
+        continue;
+      }
+      const name = ATTR_NAME.exec(attrs)?.[1] ?? '';
+      const path = [...stack.filter(Boolean), name].filter(Boolean).join('::');
+      if (path && !namespaces.includes(path)) namespaces.push(path);
+      if (!selfClosing) stack.push(name);
+    } else if (!closing) {
+      const name = ATTR_NAME.exec(attrs)?.[1];
+      const ns = stack.filter(Boolean).join('::');
+      if (name && ns) variables.push(`${ns}::${name}`);
+    }
+  }
+
+  if (namespaces.length === 0 && variables.length === 0) {
+    throw new Error("No <namespace> or <variable> definitions found.");
+  }
+  return { source, namespaces, variables };
+};
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+};
+
+export interface SysvarTargetIssue {
+  mappingId: string;
+  simSignal: string;
+  message: string;
+  suggestion?: string; // closest declared variable, as "sysvar::A::B"
+}
+
+/**
+ * Closest declared variable to a (misspelled) sysvar path, if reasonably close.
+ */
+export const suggestSysvar = (path: string, decl: SysvarDeclarations): string | undefined => {
+  let best: { name: string; distance: number } | undefined;
+  decl.variables.forEach((name) => {
+    const distance = editDistance(path.toLowerCase(), name.toLowerCase());
+    if (!best || distance < best.distance) best = { name, distance };
+  });
+  return best && best.distance <= Math.max(2, Math.floor(path.length / 5)) ? `sysvar::${best.name}` : undefined;
+};
+
+/**
+ * Checks every sysvar-shaped simSignal against the imported declarations.
+ */
+export const validateSysvarTargets = (mappings: SignalMapping[], decl: SysvarDeclarations): SysvarTargetIssue[] => {
+  const issues: SysvarTargetIssue[] = [];
+  mappings.forEach((m) => {
+    const parts = parseSysvarPath(m.simSignal);
+    if (!parts) return;
+    const path = parts.join('::');
+    if (decl.variables.includes(path)) return;
+
+    const ns = parts.slice(0, -1).join('::');
+    issues.push({
+      mappingId: m.id,
+      simSignal: m.simSignal,
+      message: decl.namespaces.includes(ns)
+        ? `Variable '${parts[parts.length - 1]}' is not declared in namespace '${ns}'`
+        : `Namespace '${ns}' is not declared`,
+      suggestion: suggestSysvar(path, decl),
+    });
+  });
+  return issues;
+};
+
+export interface UndeclaredSysvarReference {
+  name: string;
+  line: number;
+  column: number;
+}
+
+const SYSVAR_HANDLERS = ['sysvar', 'sysvar_update', 'sysvar_change'];
+
+/**
+ * Lists every sysvar reference in CAPL code that is not declared, including
+ * those addressed through sysGetVariable / sysSetVariable calls and the
+ * targets of `on sysvar` handlers (`Ns::*` needs a declared namespace).
+ * `@this` inside a handler is not a reference.
+ */
+export const findUndeclaredSysvars = (code: string, decl: SysvarDeclarations): UndeclaredSysvarReference[] => {
+  const tokens = mergeAccessorCalls(significantTokens(tokenizeCapl(code)).filter(t => t.kind !== 'comment')).tokens;
+  const isDeclared = (name: string) => decl.variables.includes((parseSysvarPath(name) ?? []).join('::'));
+  const undeclared: UndeclaredSysvarReference[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.kind === 'identifier' && t.text === 'on' && SYSVAR_HANDLERS.includes(tokens[i + 1]?.text ?? '')) {
+      let end = i + 2;
+      while (end < tokens.length && tokens[end].text !== '{') end++;
+      const target = tokens.slice(i + 2, end).map(x => x.text).join('');
+      const declared = target.endsWith('::*')
+        ? decl.namespaces.includes(target.slice(0, -3).replace(/^@/, '').replace(/^sysvar::/, ''))
+        : isDeclared(target);
+      if (target && !declared) undeclared.push({ name: target, line: tokens[i + 2].line, column: tokens[i + 2].column });
+      i = end - 1;
+    } else if (t.kind === 'sysvar' && t.text !== '@this' && !isDeclared(t.text)) {
+      undeclared.push({ name: t.text, line: t.line, column: t.column });
+    }
+  }
+  return undeclared;
+};
@@ -0,0 +1,214 @@
+import { TestMode, Workspace, WorkspaceInfo, WorkspaceState } from "../types";
+import { MappingValidationError, validateMappingHeader, validateMappings, validateProfiles } from "./mappingFile";
+import { conversionForMode } from "./profiles";
+
+const DB_NAME = 'capl-transformer';
+const DB_VERSION = 1;
+const STORE = 'workspaces';
+const ACTIVE_KEY = 'capl-transformer.activeWorkspace';
+
+export const WORKSPACE_FILE_FORMAT = 'capl-workspace';
+export const WORKSPACE_FILE_VERSION = 1;
+
+// Older terminal output is dropped when saving
+export const MAX_TERMINAL_LOGS = 500;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((err) => {
+    dbPromise = null; // allow a retry, e.g. after the user frees up storage
+    throw err;
+  });
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Workspaces saved before environment profiles stored a HIL/SIL `mode`
+type StoredWorkspace = Workspace & { mode?: TestMode };
+
+const migrateWorkspace = ({ mode, ...workspace }: StoredWorkspace): Workspace => ({
+  ...workspace,
+  profiles: workspace.profiles ?? [],
+  conversion: workspace.conversion ?? conversionForMode(mode ?? TestMode.SIL),
+  outputStyle: workspace.outputStyle ?? 'convert',
+  dualSwitch: workspace.dualSwitch ?? '',
+  rejectedSignals: workspace.rejectedSignals ?? [],
+});
+
+/**
+ * All stored workspaces, most recently updated first.
+ */
+export const listWorkspaces = async (): Promise<Workspace[]> => {
+  const all = await run<StoredWorkspace[]>('readonly', store => store.getAll());
+  return all.map(migrateWorkspace).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getWorkspace = async (id: string): Promise<Workspace | undefined> => {
+  const stored = await run<StoredWorkspace | undefined>('readonly', store => store.get(id));
+  return stored && migrateWorkspace(stored);
+};
+
+export const putWorkspace = async (workspace: Workspace): Promise<void> => {
+  await run('readwrite', store => store.put({
+    ...workspace,
+    terminalLogs: workspace.terminalLogs.slice(-MAX_TERMINAL_LOGS),
+  }));
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+/**
+ * The workspace to reopen on the next start (kept outside IndexedDB so it
+ * can be read synchronously).
+ */
+export const getActiveWorkspaceId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveWorkspaceId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch {
+    // Storage disabled: the most recent workspace opens instead
+  }
+};
+
+const createId = () => `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createWorkspace = (name: string, state: WorkspaceState): Workspace => {
+  const now = new Date().toISOString();
+  return { id: createId(), name, createdAt: now, updatedAt: now, ...state };
+};
+
+export const toWorkspaceInfo = ({ id, name, createdAt, updatedAt }: WorkspaceInfo): WorkspaceInfo =>
+  ({ id, name, createdAt, updatedAt });
+
+/**
+ * Looks a workspace up by id or (case-insensitive) name.
+ */
+export const findWorkspace = <T extends WorkspaceInfo>(workspaces: T[], nameOrId: string): T | undefined => {
+  const wanted = nameOrId.trim().toLowerCase();
+  return workspaces.find(w => w.id === nameOrId) ?? workspaces.find(w => w.name.toLowerCase() === wanted);
+};
+
+/**
+ * `name`, or `name (2)`, `name (3)`, ... if it is taken.
+ */
+export const uniqueWorkspaceName = (workspaces: WorkspaceInfo[], name: string): string => {
+  const taken = new Set(workspaces.map(w => w.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`.toLowerCase())) n++;
+  return `${name} (${n})`;
+};
+
+/**
+ * Single-file export of a workspace.
+ */
+export const createWorkspaceFile = (workspace: Workspace): string => JSON.stringify({
+  format: WORKSPACE_FILE_FORMAT,
+  version: WORKSPACE_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  workspace,
+}, null, 2);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(x => typeof x === 'string');
+
+/**
+ * Parses an exported workspace file. The imported workspace gets a new id so
+ * it never overwrites an existing one.
+ */
+export const parseWorkspaceFile = (text: string): { workspace: Workspace } | { errors: MappingValidationError[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    return { errors: [{ path: '$', message: `is not valid JSON: ${(err as Error).message}` }] };
+  }
+  if (!isObject(json) || json.format !== WORKSPACE_FILE_FORMAT) {
+    return { errors: [{ path: 'format', message: `must be '${WORKSPACE_FILE_FORMAT}'` }] };
+  }
+  if (json.version !== WORKSPACE_FILE_VERSION) {
+    return { errors: [{ path: 'version', message: `${String(json.version)} is not supported (expected ${WORKSPACE_FILE_VERSION})` }] };
+  }
+  const ws = json.workspace;
+  if (!isObject(ws)) return { errors: [{ path: 'workspace', message: 'is required and must be an object' }] };
+
+  const errors: MappingValidationError[] = [];
+  const expect = (field: string, ok: boolean, message: string) => {
+    if (!ok) errors.push({ path: `workspace.${field}`, message });
+  };
+  expect('name', typeof ws.name === 'string' && ws.name.trim() !== '', 'must be a non-empty string');
+  expect('inputCode', typeof ws.inputCode === 'string', 'must be a string');
+  if (ws.conversion === undefined) {
+    expect('mode', ws.mode === TestMode.SIL || ws.mode === TestMode.HIL, `must be '${TestMode.SIL}' or '${TestMode.HIL}'`);
+  } else {
+    expect('conversion', isObject(ws.conversion) && typeof ws.conversion.from === 'string' && typeof ws.conversion.to === 'string',
+      'must be { from, to } profile ids');
+  }
+  expect('accessStyle', ['at', 'function', 'bare'].includes(ws.accessStyle as string), "must be 'at', 'function' or 'bare'");
+  if (ws.outputStyle !== undefined) expect('outputStyle', ['convert', 'dual'].includes(ws.outputStyle as string), "must be 'convert' or 'dual'");
+  if (ws.dualSwitch !== undefined) expect('dualSwitch', typeof ws.dualSwitch === 'string', 'must be a string');
+  if (ws.rejectedSignals !== undefined) expect('rejectedSignals', isStringArray(ws.rejectedSignals), 'must be an array of strings');
+  expect('activeFile', ws.activeFile === null || typeof ws.activeFile === 'string', 'must be a string or null');
+  expect('terminalLogs', isStringArray(ws.terminalLogs), 'must be an array of strings');
+  expect('project', ws.project === null || (Array.isArray(ws.project)
+    && ws.project.every(f => isObject(f) && typeof f.path === 'string' && typeof f.content === 'string')),
+    'must be null or an array of { path, content } files');
+  expect('sysvars', ws.sysvars === null || (isObject(ws.sysvars) && typeof ws.sysvars.source === 'string'
+    && isStringArray(ws.sysvars.namespaces) && isStringArray(ws.sysvars.variables)),
+    'must be null or { source, namespaces, variables }');
+  errors.push(...validateMappingHeader(ws.mappingHeader, 'workspace.mappingHeader'));
+  if (ws.profiles !== undefined) errors.push(...validateProfiles(ws.profiles, 'workspace.profiles'));
+  errors.push(...validateMappings(ws.mappings, 'workspace.mappings', Array.isArray(ws.profiles) ? ws.profiles : []));
+  if (errors.length > 0) return { errors };
+
+  const w = migrateWorkspace(ws as unknown as StoredWorkspace);
+  const workspace = createWorkspace(w.name, {
+    inputCode: w.inputCode,
+    project: w.project,
+    activeFile: w.activeFile,
+    mappings: w.mappings,
+    mappingHeader: w.mappingHeader,
+    profiles: w.profiles,
+    conversion: w.conversion,
+    accessStyle: w.accessStyle,
+    outputStyle: w.outputStyle,
+    dualSwitch: w.dualSwitch,
+    sysvars: w.sysvars,
+    rejectedSignals: w.rejectedSignals,
+    terminalLogs: w.terminalLogs,
+  });
+  return { workspace };
+};
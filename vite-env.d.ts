@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+// Bundled Node CLI (cli/index.ts) as script text, see vite.config.ts
+declare module 'virtual:capl-cli' {
+  const source: string;
+  export default source;
+}
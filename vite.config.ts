@@ -1,7 +1,31 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { build } from 'esbuild';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const CLI_MODULE = 'virtual:capl-cli';
+
+// Bundles cli/index.ts into a single Node script for the "Export CLI" button
+const caplCliBundle = (): Plugin => ({
+  name: 'capl-cli-bundle',
+  resolveId: (id) => (id === CLI_MODULE ? `\0${CLI_MODULE}` : null),
+  async load(id) {
+    if (id !== `\0${CLI_MODULE}`) return null;
+    const result = await build({
+      entryPoints: [path.resolve(__dirname, 'cli/index.ts')],
+      bundle: true,
+      platform: 'node',
+      format: 'cjs',
+      target: 'node18',
+      write: false,
+      metafile: true,
+      banner: { js: '#!/usr/bin/env node' },
+    });
+    Object.keys(result.metafile.inputs).forEach(file => this.addWatchFile(path.resolve(file)));
+    return `export default ${JSON.stringify(result.outputFiles[0].text)};`;
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +33,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), caplCliBundle()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)